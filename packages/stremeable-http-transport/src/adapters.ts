@@ -0,0 +1,137 @@
+import type { DrainableMcpFetchHandler, McpFetchHandler } from "./fetch-handler"
+import type { DrainOptions } from "./transport"
+
+/**
+ * Subset of the Hono `Context` used by the Hono middleware
+ */
+export interface HonoContextLike {
+	req: { raw: Request }
+	executionCtx?: ExecutionContextLike
+}
+
+/**
+ * Creates a Hono middleware serving MCP requests.
+ * Mount it on the MCP endpoint, it answers every request it receives.
+ * The execution context is handed over to the handler on runtimes providing one, like Cloudflare Workers.
+ *
+ * ```typescript
+ * const app = new Hono();
+ * app.all('/mcp', createHonoMiddleware(createMcpFetchHandler(() => createMcpServer())));
+ * ```
+ */
+export function createHonoMiddleware(handler: McpFetchHandler): (c: HonoContextLike) => Promise<Response> {
+	return async (c) => {
+		let executionCtx: ExecutionContextLike | undefined
+		try {
+			executionCtx = c.executionCtx
+		} catch (_error) {
+			// Hono throws when the runtime has no execution context
+		}
+		return await handler(c.req.raw, executionCtx)
+	}
+}
+
+/**
+ * Subset of the Cloudflare Workers `ExecutionContext`
+ */
+export interface ExecutionContextLike {
+	waitUntil(promise: Promise<unknown>): void
+}
+
+/**
+ * Cloudflare Workers module handler
+ */
+export interface WorkersHandler<Env> {
+	fetch(request: Request, env: Env, ctx: ExecutionContextLike): Promise<Response>
+
+	/**
+	 * Drains the handler, if it was created and supports it, see `DrainableMcpFetchHandler`
+	 */
+	drain(options?: DrainOptions): Promise<void>
+
+	/**
+	 * Closes the handler, if it was created and supports it
+	 */
+	close(): Promise<void>
+}
+
+/**
+ * Checks whether a handler can shut down the sessions it serves
+ */
+function isDrainable(handler: McpFetchHandler | undefined): handler is DrainableMcpFetchHandler {
+	return typeof (handler as Partial<DrainableMcpFetchHandler> | undefined)?.drain === "function"
+}
+
+/**
+ * Creates the default export of a Cloudflare Worker serving MCP requests.
+ * Bindings are only available once a request comes in, so the handler is created from `env` on the first request
+ * and shared by all the following ones handled by the same isolate.
+ * The execution context is handed over to the handler, so the isolate lives until the requests are answered.
+ *
+ * ```typescript
+ * export default createWorkersHandler((env: Env) =>
+ *   createMcpFetchHandler(() => createMcpServer(env), {
+ *     path: '/mcp',
+ *     eventStore: new KeyValueEventStore({ adapter: createKvAdapter(env.EVENTS) }),
+ *   })
+ * );
+ * ```
+ */
+export function createWorkersHandler<Env = unknown>(createHandler: (env: Env) => McpFetchHandler): WorkersHandler<Env> {
+	let handler: McpFetchHandler | undefined
+
+	return {
+		async fetch(request: Request, env: Env, ctx: ExecutionContextLike): Promise<Response> {
+			handler ??= createHandler(env)
+			return await handler(request, ctx)
+		},
+		async drain(options?: DrainOptions): Promise<void> {
+			if (isDrainable(handler)) {
+				await handler.drain(options)
+			}
+		},
+		async close(): Promise<void> {
+			if (isDrainable(handler)) {
+				await handler.close()
+			}
+		},
+	}
+}
+
+/**
+ * Next.js App Router route handlers
+ */
+export interface NextRouteHandlers {
+	GET: (request: Request) => Promise<Response>
+	POST: (request: Request) => Promise<Response>
+	DELETE: (request: Request) => Promise<Response>
+	OPTIONS: (request: Request) => Promise<Response>
+}
+
+/**
+ * Creates the route handlers of a Next.js App Router route serving MCP requests.
+ * Export `OPTIONS` as well for browser-based clients, Next.js otherwise answers preflight requests itself.
+ *
+ * ```typescript
+ * // app/mcp/route.ts
+ * export const { GET, POST, DELETE, OPTIONS } = createNextRouteHandlers(createMcpFetchHandler(() => createMcpServer()));
+ * ```
+ */
+export function createNextRouteHandlers(handler: McpFetchHandler): NextRouteHandlers {
+	// Next.js passes the route segment params as a second argument, which the handler must not receive
+	const routeHandler = async (request: Request) => await handler(request)
+	return { GET: routeHandler, POST: routeHandler, DELETE: routeHandler, OPTIONS: routeHandler }
+}
+
+/**
+ * Creates a `Deno.serve` handler serving MCP requests.
+ * `Deno.serve` sends every request to a single handler, set `path` on the fetch handler to only serve the MCP endpoint.
+ *
+ * ```typescript
+ * Deno.serve(createDenoHandler(createMcpFetchHandler(() => createMcpServer(), { path: '/mcp' })));
+ * ```
+ */
+export function createDenoHandler(handler: McpFetchHandler): (request: Request) => Promise<Response> {
+	// Deno passes the connection info as a second argument, which the handler must not receive
+	return async (request) => await handler(request)
+}
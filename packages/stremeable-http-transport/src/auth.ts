@@ -0,0 +1,144 @@
+import {
+	InsufficientScopeError,
+	InvalidTokenError,
+	type OAuthError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import type { OAuthProtectedResourceMetadata } from "@modelcontextprotocol/sdk/shared/auth.js"
+import { JSONRPCForbiddenError, JSONRPCUnauthorizedError } from "./errors"
+
+export { InsufficientScopeError, InvalidTokenError }
+
+/**
+ * Verifies a bearer access token and returns the information associated with it.
+ * Throw an `InvalidTokenError` for unknown or revoked tokens, and an `InsufficientScopeError`
+ * when the token is valid but not allowed to access the resource.
+ */
+export type AccessTokenVerifier = (token: string, request: Request) => Promise<AuthInfo>
+
+/**
+ * Options used to authenticate requests carrying a bearer token
+ */
+export interface BearerAuthOptions {
+	/**
+	 * Verifies the token of the `Authorization: Bearer` header
+	 */
+	verifyAccessToken: AccessTokenVerifier
+
+	/**
+	 * Scopes the token must have been granted, all of them are required
+	 */
+	requiredScopes?: string[]
+
+	/**
+	 * URL of the OAuth protected resource metadata document, advertised in the `WWW-Authenticate` header
+	 * so clients can discover the authorization server. See `getProtectedResourceMetadataUrl`.
+	 */
+	resourceMetadataUrl?: string
+}
+
+/**
+ * Authenticates a request through its `Authorization: Bearer` header.
+ * Returns the verified AuthInfo, or the error Response to send back to the client.
+ */
+export async function authenticateBearerRequest(
+	request: Request,
+	options: BearerAuthOptions
+): Promise<AuthInfo | Response> {
+	try {
+		const authHeader = request.headers.get("authorization")
+		if (!authHeader) {
+			throw new InvalidTokenError("Missing Authorization header")
+		}
+
+		const [type, token] = authHeader.split(" ")
+		if (type.toLowerCase() !== "bearer" || !token) {
+			throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'")
+		}
+
+		const authInfo = await options.verifyAccessToken(token, request)
+
+		const requiredScopes = options.requiredScopes ?? []
+		if (!requiredScopes.every((scope) => authInfo.scopes.includes(scope))) {
+			throw new InsufficientScopeError("Insufficient scope")
+		}
+
+		// expiresAt is expressed in seconds since epoch
+		if (authInfo.expiresAt !== undefined && authInfo.expiresAt < Date.now() / 1000) {
+			throw new InvalidTokenError("Token has expired")
+		}
+
+		return authInfo
+	} catch (error) {
+		if (error instanceof InvalidTokenError) {
+			return createAuthErrorResponse(401, error, options.resourceMetadataUrl)
+		}
+		if (error instanceof InsufficientScopeError) {
+			return createAuthErrorResponse(403, error, options.resourceMetadataUrl)
+		}
+		throw error
+	}
+}
+
+/**
+ * Builds a JSON-RPC error response carrying the `WWW-Authenticate` challenge of RFC 6750
+ */
+function createAuthErrorResponse(status: 401 | 403, error: OAuthError, resourceMetadataUrl?: string): Response {
+	let challenge = `Bearer error="${error.errorCode}", error_description="${error.message}"`
+	if (resourceMetadataUrl) {
+		challenge += `, resource_metadata="${resourceMetadataUrl}"`
+	}
+
+	const message = `${status === 401 ? "Unauthorized" : "Forbidden"}: ${error.message}`
+	const options = { headers: { "WWW-Authenticate": challenge } }
+	return status === 401
+		? new JSONRPCUnauthorizedError(message, options).toResponse()
+		: new JSONRPCForbiddenError(message, options).toResponse()
+}
+
+/**
+ * Returns the URL of the protected resource metadata document of a resource, as defined by RFC 9728:
+ * the well-known path is inserted between the host and the path of the resource.
+ *
+ * e.g. `https://example.com/mcp` -> `https://example.com/.well-known/oauth-protected-resource/mcp`
+ */
+export function getProtectedResourceMetadataUrl(resource: string | URL): string {
+	const url = new URL(resource)
+	const path = url.pathname === "/" ? "" : url.pathname
+	return new URL(`/.well-known/oauth-protected-resource${path}`, url.origin).href
+}
+
+/**
+ * Creates a handler serving the RFC 9728 protected resource metadata document.
+ * Mount it on the path returned by `getProtectedResourceMetadataUrl`.
+ */
+export function createProtectedResourceMetadataHandler(
+	metadata: OAuthProtectedResourceMetadata
+): (request: Request) => Response {
+	const body = JSON.stringify(metadata)
+
+	return (request: Request) => {
+		if (request.method === "OPTIONS") {
+			return new Response(null, {
+				status: 204,
+				headers: {
+					"Access-Control-Allow-Origin": "*",
+					"Access-Control-Allow-Methods": "GET, OPTIONS",
+				},
+			})
+		}
+		if (request.method !== "GET") {
+			return new Response(null, { status: 405, headers: { Allow: "GET, OPTIONS" } })
+		}
+
+		return new Response(body, {
+			status: 200,
+			headers: {
+				"Content-Type": "application/json",
+				// The document is public and fetched by browser-based clients too
+				"Access-Control-Allow-Origin": "*",
+				"Cache-Control": "max-age=3600",
+			},
+		})
+	}
+}
@@ -0,0 +1,97 @@
+import { JSONRPCBadRequestError, JSONRPCPayloadTooLargeError, JSONRPCUnsupportedMediaTypeError } from "./errors"
+
+/**
+ * Default maximum size of a request body
+ */
+export const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024 // 4MB in bytes
+
+/**
+ * Options for reading request bodies
+ */
+export interface ReadRequestBodyOptions {
+	/**
+	 * Maximum size of the body in bytes, after decompression.
+	 * Default is 4MB.
+	 */
+	maxBodySize?: number
+}
+
+/**
+ * Content encodings that can be decoded with `DecompressionStream`
+ */
+const SUPPORTED_CONTENT_ENCODINGS = ["gzip", "deflate"] as const
+
+/**
+ * Reads the body of a request as UTF-8 text, without ever buffering more than `maxBodySize` bytes.
+ * Honors `Content-Length` to reject oversized bodies before reading them, and decodes
+ * `gzip` and `deflate` content encodings.
+ * Returns the body, or the error Response to send back to the client.
+ */
+export async function readRequestBody(
+	request: Request,
+	options: ReadRequestBodyOptions = {}
+): Promise<string | Response> {
+	const maxBodySize = options.maxBodySize ?? MAXIMUM_MESSAGE_SIZE
+
+	const contentLength = Number(request.headers.get("content-length") ?? Number.NaN)
+	if (contentLength > maxBodySize) {
+		return new JSONRPCPayloadTooLargeError().toResponse()
+	}
+
+	const charset = /;\s*charset=("?)([^";]+)\1/i.exec(request.headers.get("content-type") ?? "")?.[2]
+	if (charset !== undefined && !["utf-8", "utf8"].includes(charset.toLowerCase())) {
+		return new JSONRPCUnsupportedMediaTypeError(`Unsupported Media Type: Unsupported charset: ${charset}`).toResponse()
+	}
+
+	let stream = request.body
+	if (!stream) {
+		return ""
+	}
+
+	const contentEncoding = request.headers.get("content-encoding")?.trim().toLowerCase()
+	if (contentEncoding && contentEncoding !== "identity") {
+		const encoding = SUPPORTED_CONTENT_ENCODINGS.find((supported) => supported === contentEncoding)
+		if (!encoding) {
+			return new JSONRPCUnsupportedMediaTypeError(
+				`Unsupported Media Type: Unsupported Content-Encoding: ${contentEncoding}`
+			).toResponse()
+		}
+		stream = stream.pipeThrough(new DecompressionStream(encoding))
+	}
+
+	const reader = stream.getReader()
+	const chunks: Uint8Array[] = []
+	let size = 0
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) {
+				break
+			}
+			size += value.byteLength
+			if (size > maxBodySize) {
+				// Stop reading right away instead of buffering the rest of the body
+				await reader.cancel()
+				return new JSONRPCPayloadTooLargeError().toResponse()
+			}
+			chunks.push(value)
+		}
+	} catch (_error) {
+		// A corrupt compressed body or an aborted upload
+		return new JSONRPCBadRequestError("Bad Request: Failed to read request body").toResponse()
+	}
+
+	const bytes = new Uint8Array(size)
+	let offset = 0
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+
+	try {
+		return new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+	} catch (_error) {
+		return new JSONRPCBadRequestError("Bad Request: Request body is not valid UTF-8").toResponse()
+	}
+}
@@ -0,0 +1,170 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import type { EventId, StreamId } from "./transport"
+
+/**
+ * Message relayed to the instance holding the SSE stream it is meant for
+ */
+export interface BrokerMessage {
+	message: JSONRPCMessage
+
+	/**
+	 * ID of the event the message was stored as, if the transport has an event store
+	 */
+	eventId?: EventId
+
+	/**
+	 * True once every request of the stream is answered, so the stream must end after this message
+	 */
+	closeStream?: boolean
+}
+
+/**
+ * Handler receiving the messages published for a stream
+ */
+export type BrokerMessageHandler = (message: BrokerMessage) => void
+
+/**
+ * Publish/subscribe channel between the instances serving the same sessions.
+ * Edge platforms may route the requests of a session to different isolates, so the SSE stream
+ * a message is meant for may be held by another instance than the one sending it.
+ * Implementations can be backed by BroadcastChannel, Durable Objects, Redis or any pub/sub service.
+ */
+export interface MessageBroker {
+	/**
+	 * Delivers a message to the subscribers of a stream, on every instance
+	 */
+	publish(sessionId: string, streamId: StreamId, message: BrokerMessage): Promise<void>
+
+	/**
+	 * Subscribes to the messages of a stream
+	 * @returns a function removing the subscription
+	 */
+	subscribe(sessionId: string, streamId: StreamId, handler: BrokerMessageHandler): Promise<() => void>
+}
+
+/**
+ * Returns the key of the subscriptions of a stream
+ */
+function topicKey(sessionId: string, streamId: StreamId): string {
+	return `${sessionId}/${streamId}`
+}
+
+/**
+ * Keeps the subscriptions of a broker and dispatches messages to them
+ */
+class Subscriptions {
+	private _handlers: Map<string, Set<BrokerMessageHandler>> = new Map()
+
+	add(key: string, handler: BrokerMessageHandler): () => void {
+		let handlers = this._handlers.get(key)
+		if (!handlers) {
+			handlers = new Set()
+			this._handlers.set(key, handlers)
+		}
+		handlers.add(handler)
+
+		return () => {
+			handlers.delete(handler)
+			if (handlers.size === 0 && this._handlers.get(key) === handlers) {
+				this._handlers.delete(key)
+			}
+		}
+	}
+
+	dispatch(key: string, message: BrokerMessage): void {
+		for (const handler of this._handlers.get(key) ?? []) {
+			handler(message)
+		}
+	}
+
+	get size(): number {
+		return this._handlers.size
+	}
+
+	clear(): void {
+		this._handlers.clear()
+	}
+}
+
+/**
+ * MessageBroker delivering messages within the current instance only.
+ * Useful for tests, and to share a broker between transports of a single process.
+ */
+export class InMemoryMessageBroker implements MessageBroker {
+	private _subscriptions = new Subscriptions()
+
+	async publish(sessionId: string, streamId: StreamId, message: BrokerMessage): Promise<void> {
+		this._subscriptions.dispatch(topicKey(sessionId, streamId), message)
+	}
+
+	async subscribe(sessionId: string, streamId: StreamId, handler: BrokerMessageHandler): Promise<() => void> {
+		return this._subscriptions.add(topicKey(sessionId, streamId), handler)
+	}
+}
+
+/**
+ * Configuration options for BroadcastChannelMessageBroker
+ */
+export interface BroadcastChannelMessageBrokerOptions {
+	/**
+	 * Name of the BroadcastChannel shared by the instances. Default is "mcp-messages".
+	 */
+	channelName?: string
+}
+
+/**
+ * MessageBroker relaying messages through a BroadcastChannel, reaching the other isolates
+ * of the same deployment on platforms supporting it, such as Deno Deploy.
+ * Messages are also dispatched to the subscribers of this instance.
+ */
+export class BroadcastChannelMessageBroker implements MessageBroker {
+	private _channelName: string
+	private _channel?: BroadcastChannel
+	private _subscriptions = new Subscriptions()
+
+	constructor(options: BroadcastChannelMessageBrokerOptions = {}) {
+		this._channelName = options.channelName ?? "mcp-messages"
+	}
+
+	async publish(sessionId: string, streamId: StreamId, message: BrokerMessage): Promise<void> {
+		const key = topicKey(sessionId, streamId)
+		// A channel never receives its own messages, so local subscribers are dispatched to directly
+		this._subscriptions.dispatch(key, message)
+		this.getChannel().postMessage({ key, message })
+	}
+
+	async subscribe(sessionId: string, streamId: StreamId, handler: BrokerMessageHandler): Promise<() => void> {
+		this.getChannel()
+		const unsubscribe = this._subscriptions.add(topicKey(sessionId, streamId), handler)
+
+		return () => {
+			unsubscribe()
+			// Release the channel once nothing listens anymore, so it does not keep the isolate alive
+			if (this._subscriptions.size === 0) {
+				this.close()
+			}
+		}
+	}
+
+	/**
+	 * Closes the channel and forgets every subscription
+	 */
+	close(): void {
+		this._subscriptions.clear()
+		this._channel?.close()
+		this._channel = undefined
+	}
+
+	/**
+	 * Returns the channel, opening it on first use
+	 */
+	private getChannel(): BroadcastChannel {
+		if (!this._channel) {
+			this._channel = new BroadcastChannel(this._channelName)
+			this._channel.onmessage = (event: MessageEvent<{ key: string; message: BrokerMessage }>) => {
+				this._subscriptions.dispatch(event.data.key, event.data.message)
+			}
+		}
+		return this._channel
+	}
+}
@@ -0,0 +1,561 @@
+import type { Transport, TransportSendOptions } from "@modelcontextprotocol/sdk/shared/transport.js"
+import {
+	type JSONRPCMessage,
+	JSONRPCMessageSchema,
+	type RequestId,
+	isInitializeRequest,
+	isInitializedNotification,
+	isJSONRPCError,
+	isJSONRPCRequest,
+	isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js"
+import type { EventId } from "./transport"
+
+/**
+ * Function performing HTTP requests, `fetch` or anything with the same contract.
+ * Handing requests straight to a server transport connects a client without any network:
+ *
+ * ```typescript
+ * const client = new EdgeStreamableHTTPClientTransport('http://localhost/mcp', {
+ *   fetch: (request) => serverTransport.handleRequest(request),
+ * });
+ * ```
+ */
+export type FetchLike = (request: Request) => Promise<Response>
+
+/**
+ * Backoff applied when reconnecting an SSE stream that ended unexpectedly
+ */
+export interface ReconnectionOptions {
+	/**
+	 * Delay in milliseconds before the first reconnection attempt.
+	 * Overridden by the `retry` field when the server sends one.
+	 */
+	initialDelay: number
+
+	/**
+	 * Maximum delay in milliseconds between two attempts
+	 */
+	maxDelay: number
+
+	/**
+	 * Factor the delay is multiplied by after each failed attempt
+	 */
+	growFactor: number
+
+	/**
+	 * Number of consecutive attempts before giving up. 0 retries forever.
+	 */
+	maxRetries: number
+}
+
+const DEFAULT_RECONNECTION_OPTIONS: ReconnectionOptions = {
+	initialDelay: 1000,
+	maxDelay: 30000,
+	growFactor: 1.5,
+	maxRetries: 2,
+}
+
+/**
+ * Configuration options for EdgeStreamableHTTPClientTransport
+ */
+export interface EdgeStreamableHTTPClientTransportOptions {
+	/**
+	 * Function used to perform HTTP requests. Default is the global `fetch`.
+	 */
+	fetch?: FetchLike
+
+	/**
+	 * Headers added to every request, e.g. an `Authorization` header
+	 */
+	headers?: HeadersInit
+
+	/**
+	 * ID of an existing session to resume instead of initializing a new one
+	 */
+	sessionId?: string
+
+	/**
+	 * Protocol version negotiated for the session given in `sessionId`.
+	 * Otherwise it is captured from the response to the initialize request.
+	 */
+	protocolVersion?: string
+
+	/**
+	 * Backoff applied when reconnecting SSE streams
+	 */
+	reconnection?: Partial<ReconnectionOptions>
+
+	/**
+	 * If true, a standalone GET stream is opened once the session is initialized,
+	 * so the server can send messages unrelated to any request. Default is true.
+	 */
+	openStandaloneStream?: boolean
+
+	/**
+	 * If true, `close` terminates the session with a DELETE request. Default is true.
+	 */
+	terminateOnClose?: boolean
+}
+
+/**
+ * The server answered a request with an unexpected HTTP status or content type
+ */
+export class EdgeStreamableHTTPClientError extends Error {
+	readonly status: number
+
+	constructor(status: number, message: string) {
+		super(message)
+		this.name = "EdgeStreamableHTTPClientError"
+		this.status = status
+	}
+}
+
+/**
+ * Server-Sent Event, as parsed from a stream
+ */
+interface SSEEvent {
+	event: string
+	data: string
+	id?: string
+	retry?: number
+}
+
+/**
+ * State of an SSE stream, kept across reconnections
+ */
+interface StreamState {
+	/**
+	 * Requests whose responses are expected on the stream, undefined for the standalone GET stream
+	 */
+	pendingRequestIds?: Set<RequestId>
+	lastEventId?: EventId
+	retryDelay?: number
+	attempt: number
+	onresumptiontoken?: (token: string) => void
+}
+
+/**
+ * Reads the Server-Sent Events of a stream as defined by the HTML specification, until the stream ends
+ */
+async function readSSEEvents(reader: ReadableStreamDefaultReader<Uint8Array>, onEvent: (event: SSEEvent) => void) {
+	const decoder = new TextDecoder()
+	let buffer = ""
+	let event: SSEEvent = { event: "", data: "" }
+	let hasData = false
+
+	const processLine = (line: string) => {
+		if (line === "") {
+			if (hasData) {
+				onEvent({ ...event, event: event.event || "message", data: event.data.slice(0, -1) })
+			}
+			// The event ID is kept by the stream, everything else is reset
+			event = { event: "", data: "", id: event.id }
+			hasData = false
+			return
+		}
+		if (line.startsWith(":")) {
+			// Comment, like heartbeats
+			return
+		}
+
+		const separatorIndex = line.indexOf(":")
+		const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex)
+		let value = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1)
+		if (value.startsWith(" ")) {
+			value = value.slice(1)
+		}
+
+		switch (field) {
+			case "event":
+				event.event = value
+				break
+			case "data":
+				event.data += `${value}\n`
+				hasData = true
+				break
+			case "id":
+				if (!value.includes("\0")) {
+					event.id = value
+				}
+				break
+			case "retry":
+				if (/^\d+$/.test(value)) {
+					onEvent({ event: "retry", data: "", retry: Number(value) })
+				}
+				break
+		}
+	}
+
+	while (true) {
+		const { done, value } = await reader.read()
+		buffer += decoder.decode(value, { stream: !done })
+
+		const lines = buffer.split(/\r\n|\r|\n/)
+		// The last line may be incomplete, unless the stream ended
+		buffer = done ? "" : (lines.pop() ?? "")
+		for (const line of lines) {
+			processLine(line)
+		}
+
+		if (done) {
+			return
+		}
+	}
+}
+
+/**
+ * Edge-compatible client transport for Streamable HTTP: this implements the MCP Streamable HTTP transport specification
+ * using only the Web Fetch and Streams APIs, so it runs in workers, Deno, Bun, browsers and Node alike.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+ *
+ * const client = new Client({ name: 'my-client', version: '1.0.0' });
+ * await client.connect(new EdgeStreamableHTTPClientTransport('https://example.com/mcp'));
+ * ```
+ *
+ * - Requests are sent with POST, and their responses read from either a JSON body or an SSE stream
+ * - The session ID returned by the server is sent along with every following request
+ * - A standalone GET stream is opened once the session is initialized, if the server offers one
+ * - SSE streams ending before all their responses arrived are resumed with `Last-Event-ID`, with backoff
+ * - Closing the transport terminates the session with a DELETE request
+ */
+export class EdgeStreamableHTTPClientTransport implements Transport {
+	private _url: URL
+	private _fetch: FetchLike
+	private _headers?: HeadersInit
+	private _reconnection: ReconnectionOptions
+	private _openStandaloneStream: boolean
+	private _terminateOnClose: boolean
+	private _abortController?: AbortController
+	private _readers: Set<ReadableStreamDefaultReader<Uint8Array>> = new Set()
+	private _reconnectionTimers: Set<ReturnType<typeof setTimeout>> = new Set()
+	private _initializeRequestId?: RequestId
+
+	sessionId?: string | undefined
+	/**
+	 * The protocol version negotiated during initialization, sent along with every following request
+	 */
+	protocolVersion?: string | undefined
+	onclose?: () => void
+	onerror?: (error: Error) => void
+	onmessage?: (message: JSONRPCMessage) => void
+
+	constructor(url: string | URL, options: EdgeStreamableHTTPClientTransportOptions = {}) {
+		this._url = new URL(url)
+		this._fetch = options.fetch ?? ((request) => fetch(request))
+		this._headers = options.headers
+		this._reconnection = { ...DEFAULT_RECONNECTION_OPTIONS, ...options.reconnection }
+		this._openStandaloneStream = options.openStandaloneStream ?? true
+		this._terminateOnClose = options.terminateOnClose ?? true
+		this.sessionId = options.sessionId
+		this.protocolVersion = options.protocolVersion
+	}
+
+	/**
+	 * Starts the transport. No request is made until the first message is sent.
+	 */
+	async start(): Promise<void> {
+		if (this._abortController) {
+			throw new Error("Transport already started")
+		}
+		this._abortController = new AbortController()
+	}
+
+	/**
+	 * Sends a message to the server with a POST request.
+	 * When a resumption token is given, the interrupted stream it belongs to is resumed instead.
+	 */
+	async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+		try {
+			if (options?.resumptionToken) {
+				const state: StreamState = {
+					pendingRequestIds: new Set(isJSONRPCRequest(message) ? [message.id] : []),
+					lastEventId: options.resumptionToken,
+					attempt: 0,
+					onresumptiontoken: options.onresumptiontoken,
+				}
+				await this.openStream(state)
+				return
+			}
+
+			if (isJSONRPCRequest(message) && isInitializeRequest(message)) {
+				this._initializeRequestId = message.id
+			}
+
+			const headers = this.createHeaders()
+			headers.set("Content-Type", "application/json")
+			headers.set("Accept", "application/json, text/event-stream")
+
+			const response = await this._fetch(
+				new Request(this._url, {
+					method: "POST",
+					headers,
+					body: JSON.stringify(message),
+					signal: this._abortController?.signal,
+				})
+			)
+
+			const sessionId = response.headers.get("mcp-session-id")
+			if (sessionId) {
+				this.sessionId = sessionId
+			}
+
+			if (!response.ok) {
+				if (response.status === 404 && this.sessionId !== undefined) {
+					// The session is gone, a new one has to be initialized
+					this.sessionId = undefined
+					this.protocolVersion = undefined
+				}
+				const text = await response.text().catch(() => "")
+				throw new EdgeStreamableHTTPClientError(
+					response.status,
+					`Error POSTing to endpoint (HTTP ${response.status}): ${text}`
+				)
+			}
+
+			if (response.status === 202) {
+				await response.body?.cancel()
+				if (isInitializedNotification(message) && this._openStandaloneStream) {
+					this.openStream({ attempt: 0 }).catch((error) => this.onerror?.(error))
+				}
+				return
+			}
+
+			if (!isJSONRPCRequest(message)) {
+				await response.body?.cancel()
+				return
+			}
+
+			const contentType = response.headers.get("content-type") ?? ""
+			if (contentType.includes("text/event-stream")) {
+				this.consumeStream(response, {
+					pendingRequestIds: new Set([message.id]),
+					attempt: 0,
+					onresumptiontoken: options?.onresumptiontoken,
+				})
+			} else if (contentType.includes("application/json")) {
+				const data = await response.json()
+				for (const rawMessage of Array.isArray(data) ? data : [data]) {
+					this.handleIncomingMessage(rawMessage)
+				}
+			} else {
+				await response.body?.cancel()
+				throw new EdgeStreamableHTTPClientError(response.status, `Unexpected content type: ${contentType}`)
+			}
+		} catch (error) {
+			this.onerror?.(error as Error)
+			throw error
+		}
+	}
+
+	/**
+	 * Closes every stream, terminates the session unless `terminateOnClose` is false, and aborts pending requests
+	 */
+	async close(): Promise<void> {
+		for (const timer of this._reconnectionTimers) {
+			clearTimeout(timer)
+		}
+		this._reconnectionTimers.clear()
+
+		this._abortController?.abort()
+		for (const reader of this._readers) {
+			reader.cancel().catch(() => {
+				// The stream already failed
+			})
+		}
+		this._readers.clear()
+
+		if (this._terminateOnClose) {
+			try {
+				await this.terminateSession()
+			} catch (_error) {
+				// Already reported through onerror, the transport is closed regardless
+			}
+		}
+
+		this.onclose?.()
+	}
+
+	/**
+	 * Terminates the current session with a DELETE request.
+	 * Servers that do not allow clients to terminate sessions answer with 405, which is not an error.
+	 */
+	async terminateSession(): Promise<void> {
+		if (this.sessionId === undefined) {
+			return
+		}
+
+		try {
+			const response = await this._fetch(new Request(this._url, { method: "DELETE", headers: this.createHeaders() }))
+			await response.body?.cancel()
+			if (!response.ok && response.status !== 405) {
+				throw new EdgeStreamableHTTPClientError(
+					response.status,
+					`Failed to terminate session (HTTP ${response.status})`
+				)
+			}
+			this.sessionId = undefined
+		} catch (error) {
+			this.onerror?.(error as Error)
+			throw error
+		}
+	}
+
+	/**
+	 * Builds the headers shared by every request
+	 */
+	private createHeaders(): Headers {
+		const headers = new Headers(this._headers)
+		if (this.sessionId !== undefined) {
+			headers.set("mcp-session-id", this.sessionId)
+		}
+		if (this.protocolVersion !== undefined) {
+			headers.set("mcp-protocol-version", this.protocolVersion)
+		}
+		return headers
+	}
+
+	/**
+	 * Opens an SSE stream with a GET request: the standalone stream, or the resumption of an interrupted one
+	 */
+	private async openStream(state: StreamState): Promise<void> {
+		const headers = this.createHeaders()
+		headers.set("Accept", "text/event-stream")
+		if (state.lastEventId !== undefined) {
+			headers.set("Last-Event-ID", state.lastEventId)
+		}
+
+		const response = await this._fetch(
+			new Request(this._url, { method: "GET", headers, signal: this._abortController?.signal })
+		)
+
+		if (!response.ok) {
+			await response.body?.cancel()
+			// 405 means the server does not offer a standalone stream, which is allowed
+			if (response.status === 405 && state.pendingRequestIds === undefined) {
+				return
+			}
+			throw new EdgeStreamableHTTPClientError(response.status, `Failed to open SSE stream (HTTP ${response.status})`)
+		}
+
+		this.consumeStream(response, state)
+	}
+
+	/**
+	 * Dispatches the messages of an SSE stream in the background, and reconnects when it ends too early
+	 */
+	private consumeStream(response: Response, state: StreamState): void {
+		if (!response.body) {
+			return
+		}
+
+		const reader = response.body.getReader()
+		this._readers.add(reader)
+
+		const onEvent = (event: SSEEvent) => {
+			if (event.retry !== undefined) {
+				state.retryDelay = event.retry
+				return
+			}
+			if (event.id !== undefined && event.id !== state.lastEventId) {
+				state.lastEventId = event.id
+				state.onresumptiontoken?.(event.id)
+			}
+			if (event.event !== "message") {
+				return
+			}
+
+			let rawMessage: unknown
+			try {
+				rawMessage = JSON.parse(event.data)
+			} catch (error) {
+				this.onerror?.(error as Error)
+				return
+			}
+			const message = this.handleIncomingMessage(rawMessage)
+			if (message && (isJSONRPCResponse(message) || isJSONRPCError(message))) {
+				state.pendingRequestIds?.delete(message.id)
+			}
+			// The connection works again, start the backoff over on the next disconnection
+			state.attempt = 0
+		}
+
+		readSSEEvents(reader, onEvent)
+			.catch((error) => {
+				if (this._readers.has(reader)) {
+					this.onerror?.(new Error(`SSE stream disconnected: ${error}`))
+				}
+			})
+			.finally(() => {
+				const wasClosed = !this._readers.delete(reader)
+				if (wasClosed || this._abortController?.signal.aborted) {
+					return
+				}
+
+				const isStandalone = state.pendingRequestIds === undefined
+				if (!isStandalone && state.pendingRequestIds?.size === 0) {
+					return
+				}
+				if (!isStandalone && state.lastEventId === undefined) {
+					this.onerror?.(new Error("SSE stream ended before all responses were received and cannot be resumed"))
+					return
+				}
+				this.scheduleReconnection(state)
+			})
+	}
+
+	/**
+	 * Reopens a stream after a delay growing with every consecutive attempt
+	 */
+	private scheduleReconnection(state: StreamState): void {
+		const { initialDelay, maxDelay, growFactor, maxRetries } = this._reconnection
+		if (maxRetries > 0 && state.attempt >= maxRetries) {
+			this.onerror?.(new Error(`Maximum reconnection attempts (${maxRetries}) exceeded`))
+			return
+		}
+
+		const delay = Math.min((state.retryDelay ?? initialDelay) * growFactor ** state.attempt, maxDelay)
+		state.attempt++
+
+		const timer = setTimeout(() => {
+			this._reconnectionTimers.delete(timer)
+			this.openStream(state).catch((error) => {
+				this.onerror?.(new Error(`Failed to reconnect SSE stream: ${error instanceof Error ? error.message : error}`))
+				this.scheduleReconnection(state)
+			})
+		}, delay)
+		this._reconnectionTimers.add(timer)
+	}
+
+	/**
+	 * Validates a message received from the server and passes it to `onmessage`
+	 * Returns the message, or undefined when it is invalid
+	 */
+	private handleIncomingMessage(rawMessage: unknown): JSONRPCMessage | undefined {
+		const result = JSONRPCMessageSchema.safeParse(rawMessage)
+		if (!result.success) {
+			this.onerror?.(result.error)
+			return undefined
+		}
+
+		const message = result.data
+		if (
+			this._initializeRequestId !== undefined &&
+			isJSONRPCResponse(message) &&
+			message.id === this._initializeRequestId
+		) {
+			const protocolVersion = message.result.protocolVersion
+			if (typeof protocolVersion === "string") {
+				this.protocolVersion = protocolVersion
+			}
+			this._initializeRequestId = undefined
+		}
+
+		this.onmessage?.(message)
+		return message
+	}
+}
@@ -0,0 +1,117 @@
+import { type AllowList, isAllowed } from "./transport"
+
+/**
+ * Cross-origin resource sharing settings, for MCP clients running in browsers
+ */
+export interface CorsOptions {
+	/**
+	 * Origins allowed to call the server from a browser, or "*" for any origin.
+	 * Default is "*".
+	 */
+	allowedOrigins?: AllowList | "*"
+
+	/**
+	 * If true, browsers are allowed to send cookies and HTTP authentication along with requests.
+	 * The request origin is then echoed back instead of "*", which browsers reject with credentials.
+	 */
+	credentials?: boolean
+
+	/**
+	 * Time in seconds browsers may cache the result of a preflight request
+	 */
+	maxAge?: number
+}
+
+/**
+ * Methods of the Streamable HTTP transport
+ */
+const ALLOWED_METHODS = "GET, POST, DELETE, OPTIONS"
+
+/**
+ * Request headers used by MCP clients
+ */
+const ALLOWED_HEADERS = "Content-Type, Accept, Authorization, Last-Event-ID, mcp-session-id, mcp-protocol-version"
+
+/**
+ * Response headers MCP clients need to read, including the bearer challenge pointing to the authorization server
+ */
+const EXPOSED_HEADERS = "mcp-session-id, WWW-Authenticate"
+
+/**
+ * Returns the value of the `Access-Control-Allow-Origin` header for a request, or undefined if its origin is not allowed
+ */
+function getAllowedOrigin(request: Request, options: CorsOptions): string | undefined {
+	const origin = request.headers.get("origin")
+	const allowedOrigins = options.allowedOrigins ?? "*"
+
+	if (allowedOrigins === "*") {
+		// Browsers reject the wildcard on credentialed requests
+		return options.credentials && origin !== null ? origin : "*"
+	}
+	if (origin === null || !isAllowed(origin, allowedOrigins, request)) {
+		return undefined
+	}
+	return origin
+}
+
+/**
+ * Answers a CORS preflight request, or any other OPTIONS request, with the allowed methods and headers.
+ * Without CORS options, only the `Allow` header is sent.
+ */
+export function createCorsPreflightResponse(
+	request: Request,
+	options?: CorsOptions,
+	allowedMethods = ALLOWED_METHODS
+): Response {
+	const headers = new Headers({ Allow: allowedMethods })
+
+	const allowedOrigin = options ? getAllowedOrigin(request, options) : undefined
+	if (options && allowedOrigin !== undefined) {
+		headers.set("Access-Control-Allow-Origin", allowedOrigin)
+		headers.set("Access-Control-Allow-Methods", allowedMethods)
+		headers.set("Access-Control-Allow-Headers", ALLOWED_HEADERS)
+		if (options.credentials) {
+			headers.set("Access-Control-Allow-Credentials", "true")
+		}
+		if (options.maxAge !== undefined) {
+			headers.set("Access-Control-Max-Age", String(options.maxAge))
+		}
+	}
+	if (options && allowedOrigin !== "*") {
+		headers.set("Vary", "Origin")
+	}
+
+	return new Response(null, { status: 204, headers })
+}
+
+/**
+ * Adds the CORS headers of a request to its response.
+ * Responses already carrying them are returned as is, so handlers can be nested.
+ */
+export function applyCorsHeaders(request: Request, response: Response, options: CorsOptions): Response {
+	if (response.headers.has("Access-Control-Allow-Origin")) {
+		return response
+	}
+
+	const allowedOrigin = getAllowedOrigin(request, options)
+	if (allowedOrigin === undefined) {
+		return response
+	}
+
+	// Headers of responses coming from fetch are immutable, so the response is rebuilt around the same body
+	const headers = new Headers(response.headers)
+	headers.set("Access-Control-Allow-Origin", allowedOrigin)
+	headers.set("Access-Control-Expose-Headers", EXPOSED_HEADERS)
+	if (options.credentials) {
+		headers.set("Access-Control-Allow-Credentials", "true")
+	}
+	if (allowedOrigin !== "*") {
+		headers.append("Vary", "Origin")
+	}
+
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	})
+}
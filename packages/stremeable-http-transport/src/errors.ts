@@ -0,0 +1,239 @@
+import type { RequestId } from "@modelcontextprotocol/sdk/types.js"
+
+/**
+ * JSON-RPC error codes as per the JSON-RPC 2.0 specification
+ * https://www.jsonrpc.org/specification#error_object
+ */
+export const JSON_RPC_ERROR_CODES = {
+	PARSE_ERROR: -32700,
+	INVALID_REQUEST: -32600,
+	METHOD_NOT_FOUND: -32601,
+	INVALID_PARAMS: -32602,
+	INTERNAL_ERROR: -32603,
+} as const
+
+/**
+ * JSON-RPC error response, which unlike the SDK `JSONRPCError` may carry a null ID
+ * when the ID of the faulty message could not be determined
+ */
+export interface JSONRPCErrorResponse {
+	jsonrpc: "2.0"
+	id: RequestId | null
+	error: {
+		code: number
+		message: string
+		data?: unknown
+	}
+}
+
+/**
+ * Options shared by every JSONRPCTransportError
+ */
+export interface JSONRPCTransportErrorOptions {
+	/**
+	 * ID of the message the error relates to, null when unknown
+	 */
+	id?: RequestId | null
+
+	/**
+	 * Details about the error. Only sent to clients in debug mode, as it may leak implementation details.
+	 */
+	data?: unknown
+
+	/**
+	 * Underlying error
+	 */
+	cause?: unknown
+
+	/**
+	 * Time in seconds after which the client may retry, sent in the `Retry-After` header
+	 */
+	retryAfter?: number
+
+	/**
+	 * Other HTTP headers of the response, such as `Allow` or `WWW-Authenticate`
+	 */
+	headers?: Record<string, string>
+}
+
+/**
+ * Base class of the errors the transport reports to clients as JSON-RPC error responses
+ */
+export class JSONRPCTransportError extends Error {
+	readonly code: number
+	readonly status: number
+	readonly id: RequestId | null
+	readonly data?: unknown
+	readonly retryAfter?: number
+	readonly headers?: Record<string, string>
+
+	constructor(code: number, message: string, status: number, options: JSONRPCTransportErrorOptions = {}) {
+		super(message, { cause: options.cause })
+		this.name = new.target.name
+		this.code = code
+		this.status = status
+		this.id = options.id ?? null
+		this.data = options.data
+		this.retryAfter = options.retryAfter
+		this.headers = options.headers
+	}
+
+	/**
+	 * Returns the JSON-RPC error response for this error
+	 * @param includeData Whether to expose `data` to the client
+	 */
+	toJSONRPC(includeData = false): JSONRPCErrorResponse {
+		return {
+			jsonrpc: "2.0",
+			error: {
+				code: this.code,
+				message: this.message,
+				...(includeData && this.data !== undefined ? { data: this.data } : {}),
+			},
+			id: this.id,
+		}
+	}
+
+	/**
+	 * Returns the HTTP response carrying the JSON-RPC error response for this error
+	 * @param includeData Whether to expose `data` to the client
+	 */
+	toResponse(includeData = false): Response {
+		const headers: Record<string, string> = { "Content-Type": "application/json", ...this.headers }
+		if (this.retryAfter !== undefined) {
+			headers["Retry-After"] = String(this.retryAfter)
+		}
+
+		return new Response(JSON.stringify(this.toJSONRPC(includeData)), {
+			status: this.status,
+			headers,
+		})
+	}
+}
+
+/**
+ * The request body is not valid JSON
+ */
+export class JSONRPCParseError extends JSONRPCTransportError {
+	constructor(options?: JSONRPCTransportErrorOptions) {
+		super(JSON_RPC_ERROR_CODES.PARSE_ERROR, "Parse error", 400, options)
+	}
+}
+
+/**
+ * The request body is valid JSON, but not a valid JSON-RPC message
+ */
+export class JSONRPCInvalidRequestError extends JSONRPCTransportError {
+	constructor(message = "Invalid Request", options?: JSONRPCTransportErrorOptions) {
+		super(JSON_RPC_ERROR_CODES.INVALID_REQUEST, message, 400, options)
+	}
+}
+
+/**
+ * The request is malformed beyond its body, such as a header carrying an invalid value
+ */
+export class JSONRPCBadRequestError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 400, options)
+	}
+}
+
+/**
+ * The request lacks valid credentials
+ */
+export class JSONRPCUnauthorizedError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 401, options)
+	}
+}
+
+/**
+ * The request is not allowed, whatever its credentials or origin
+ */
+export class JSONRPCForbiddenError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 403, options)
+	}
+}
+
+/**
+ * The session of the request does not exist, or no longer does: the client must start a new one
+ */
+export class JSONRPCSessionNotFoundError extends JSONRPCTransportError {
+	constructor(message = "Session not found", options?: JSONRPCTransportErrorOptions) {
+		super(-32001, message, 404, options)
+	}
+}
+
+/**
+ * The HTTP method is not supported by the endpoint
+ * @param allow Methods the endpoint supports, sent in the `Allow` header
+ */
+export class JSONRPCMethodNotAllowedError extends JSONRPCTransportError {
+	constructor(message: string, allow: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 405, { ...options, headers: { ...options?.headers, Allow: allow } })
+	}
+}
+
+/**
+ * The client does not accept the content types the endpoint responds with
+ */
+export class JSONRPCNotAcceptableError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 406, options)
+	}
+}
+
+/**
+ * The request conflicts with the state of the session, such as a stream that is already open
+ */
+export class JSONRPCConflictError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 409, options)
+	}
+}
+
+/**
+ * The request body exceeds the maximum size
+ */
+export class JSONRPCPayloadTooLargeError extends JSONRPCTransportError {
+	constructor(message = "Request too large", options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 413, options)
+	}
+}
+
+/**
+ * The request body comes in a content type, charset or encoding the endpoint does not support
+ */
+export class JSONRPCUnsupportedMediaTypeError extends JSONRPCTransportError {
+	constructor(message: string, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 415, options)
+	}
+}
+
+/**
+ * The transport or the code handling a message failed unexpectedly
+ */
+export class JSONRPCInternalError extends JSONRPCTransportError {
+	constructor(message = "Internal error", options?: JSONRPCTransportErrorOptions) {
+		super(JSON_RPC_ERROR_CODES.INTERNAL_ERROR, message, 500, options)
+	}
+}
+
+/**
+ * The client exceeded a limit of the transport and should retry later
+ */
+export class JSONRPCTooManyRequestsError extends JSONRPCTransportError {
+	constructor(message: string, retryAfter: number, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 429, { ...options, retryAfter })
+	}
+}
+
+/**
+ * The server is shutting down and does not accept new work, the client should retry later if given a `retryAfter`
+ */
+export class JSONRPCServiceUnavailableError extends JSONRPCTransportError {
+	constructor(message: string, retryAfter?: number, options?: JSONRPCTransportErrorOptions) {
+		super(-32000, message, 503, { ...options, retryAfter })
+	}
+}
@@ -0,0 +1,354 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { JSONRPCBadRequestError } from "./errors"
+import type { EventId, EventStore, StreamId } from "./transport"
+
+const SEQUENCE_LENGTH = 16
+
+/**
+ * Builds an event ID that encodes its stream ID, so replaying never has to scan other streams.
+ * Sequences are zero-padded so that event IDs of a stream sort lexicographically in storage order.
+ */
+function createEventId(streamId: StreamId, sequence: number): EventId {
+	return `${streamId}_${String(sequence).padStart(SEQUENCE_LENGTH, "0")}`
+}
+
+/**
+ * Splits an event ID created by `createEventId` back into its stream ID and sequence
+ */
+function parseEventId(eventId: EventId): { streamId: StreamId; sequence: number } {
+	const separatorIndex = eventId.lastIndexOf("_")
+	const sequence = Number(eventId.slice(separatorIndex + 1))
+	if (separatorIndex <= 0 || !Number.isSafeInteger(sequence)) {
+		throw new JSONRPCBadRequestError(`Bad Request: Invalid Last-Event-ID: ${eventId}`)
+	}
+	return { streamId: eventId.slice(0, separatorIndex), sequence }
+}
+
+interface StoredEvent {
+	eventId: EventId
+	sequence: number
+	message: JSONRPCMessage
+	storedAt: number
+}
+
+/**
+ * Fixed-capacity buffer that overwrites its oldest entry once full
+ */
+class RingBuffer<T> {
+	private _items: (T | undefined)[]
+	private _capacity: number
+	private _start = 0
+	private _length = 0
+
+	constructor(capacity: number) {
+		this._capacity = capacity
+		this._items = new Array(capacity)
+	}
+
+	get length(): number {
+		return this._length
+	}
+
+	push(item: T): void {
+		const index = (this._start + this._length) % this._capacity
+		this._items[index] = item
+		if (this._length < this._capacity) {
+			this._length++
+		} else {
+			this._start = (this._start + 1) % this._capacity
+		}
+	}
+
+	peek(): T | undefined {
+		return this._length > 0 ? this._items[this._start] : undefined
+	}
+
+	shift(): T | undefined {
+		if (this._length === 0) {
+			return undefined
+		}
+		const item = this._items[this._start]
+		this._items[this._start] = undefined
+		this._start = (this._start + 1) % this._capacity
+		this._length--
+		return item
+	}
+
+	*[Symbol.iterator](): IterableIterator<T> {
+		for (let i = 0; i < this._length; i++) {
+			yield this._items[(this._start + i) % this._capacity] as T
+		}
+	}
+}
+
+/**
+ * Configuration options for InMemoryEventStore
+ */
+export interface InMemoryEventStoreOptions {
+	/**
+	 * Maximum number of events kept per stream. Older events are evicted first.
+	 * Default is 1000.
+	 */
+	maxEventsPerStream?: number
+
+	/**
+	 * Maximum number of streams kept. Every POST answered over SSE opens a new stream,
+	 * so the streams stored first are evicted first once the limit is reached.
+	 * Default is 1000.
+	 */
+	maxStreams?: number
+
+	/**
+	 * Time in milliseconds after which a stored event is evicted.
+	 * Disabled by default.
+	 */
+	ttl?: number
+}
+
+/**
+ * Event store that keeps events in memory, bounded per stream, in number of streams and optionally by age.
+ * Only suitable when every request of a session reaches the same instance.
+ */
+export class InMemoryEventStore implements EventStore {
+	private _streams: Map<StreamId, RingBuffer<StoredEvent>> = new Map()
+	private _sequence = 0
+	private _maxEventsPerStream: number
+	private _maxStreams: number
+	private _ttl?: number
+
+	constructor(options: InMemoryEventStoreOptions = {}) {
+		this._maxEventsPerStream = options.maxEventsPerStream ?? 1000
+		this._maxStreams = options.maxStreams ?? 1000
+		this._ttl = options.ttl
+		if (this._maxEventsPerStream < 1) {
+			throw new Error("maxEventsPerStream must be at least 1")
+		}
+		if (this._maxStreams < 1) {
+			throw new Error("maxStreams must be at least 1")
+		}
+	}
+
+	async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+		this.evictExpired()
+
+		let events = this._streams.get(streamId)
+		if (!events) {
+			// Maps iterate in insertion order, so the first stream is the oldest
+			for (const oldestStreamId of this._streams.keys()) {
+				if (this._streams.size < this._maxStreams) {
+					break
+				}
+				this._streams.delete(oldestStreamId)
+			}
+			events = new RingBuffer(this._maxEventsPerStream)
+			this._streams.set(streamId, events)
+		}
+
+		const sequence = ++this._sequence
+		const eventId = createEventId(streamId, sequence)
+		events.push({ eventId, sequence, message, storedAt: Date.now() })
+		return eventId
+	}
+
+	async replayEventsAfter(
+		lastEventId: EventId,
+		{
+			send,
+		}: {
+			send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+		}
+	): Promise<StreamId> {
+		this.evictExpired()
+
+		const { streamId, sequence } = parseEventId(lastEventId)
+		const events = this._streams.get(streamId)
+		if (!events) {
+			return streamId
+		}
+
+		// Snapshot first, so events stored while replaying are not sent twice
+		const pending = Array.from(events).filter((event) => event.sequence > sequence)
+		for (const event of pending) {
+			await send(event.eventId, event.message)
+		}
+		return streamId
+	}
+
+	/**
+	 * Drops events older than the configured TTL, and streams left without events
+	 */
+	private evictExpired(): void {
+		if (this._ttl === undefined) {
+			return
+		}
+
+		const cutoff = Date.now() - this._ttl
+		for (const [streamId, events] of this._streams) {
+			while ((events.peek()?.storedAt ?? Number.POSITIVE_INFINITY) <= cutoff) {
+				events.shift()
+			}
+			if (events.length === 0) {
+				this._streams.delete(streamId)
+			}
+		}
+	}
+}
+
+/**
+ * Minimal key-value storage contract used by KeyValueEventStore.
+ * Small enough to be backed by Workers KV, Deno KV, Redis or any similar store.
+ */
+export interface KeyValueAdapter {
+	/**
+	 * Returns the value stored under the key, or undefined when missing or expired
+	 */
+	get(key: string): Promise<string | undefined>
+
+	/**
+	 * Stores a value under the key
+	 * @param options.ttl Time in milliseconds after which the key may be dropped by the store
+	 */
+	put(key: string, value: string, options?: { ttl?: number }): Promise<void>
+
+	/**
+	 * Lists every key starting with the prefix, in any order
+	 */
+	list(prefix: string): Promise<string[]>
+
+	/**
+	 * Removes the key, if present
+	 */
+	delete(key: string): Promise<void>
+}
+
+/**
+ * KeyValueAdapter kept in memory, honoring TTLs.
+ * Useful as a local stand-in for a remote store in development and tests.
+ */
+export class InMemoryKeyValueAdapter implements KeyValueAdapter {
+	private _entries: Map<string, { value: string; expiresAt?: number }> = new Map()
+
+	async get(key: string): Promise<string | undefined> {
+		const entry = this._entries.get(key)
+		if (!entry) {
+			return undefined
+		}
+		if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			this._entries.delete(key)
+			return undefined
+		}
+		return entry.value
+	}
+
+	async put(key: string, value: string, options?: { ttl?: number }): Promise<void> {
+		const expiresAt = options?.ttl !== undefined ? Date.now() + options.ttl : undefined
+		this._entries.set(key, { value, expiresAt })
+	}
+
+	async list(prefix: string): Promise<string[]> {
+		const now = Date.now()
+		const keys: string[] = []
+		for (const [key, entry] of this._entries) {
+			if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+				this._entries.delete(key)
+			} else if (key.startsWith(prefix)) {
+				keys.push(key)
+			}
+		}
+		return keys
+	}
+
+	async delete(key: string): Promise<void> {
+		this._entries.delete(key)
+	}
+}
+
+/**
+ * Configuration options for KeyValueEventStore
+ */
+export interface KeyValueEventStoreOptions {
+	/**
+	 * Storage the events are written to
+	 */
+	adapter: KeyValueAdapter
+
+	/**
+	 * Prefix of every key written by the store.
+	 * Default is "mcp:events:".
+	 */
+	prefix?: string
+
+	/**
+	 * Time in milliseconds after which stored events expire, enforced by the adapter.
+	 * Disabled by default.
+	 */
+	ttl?: number
+}
+
+/**
+ * Event store persisted through a KeyValueAdapter, so events survive across instances.
+ * Each event is written under `<prefix><streamId>:<sequence>`, which lets replays list a single stream.
+ */
+export class KeyValueEventStore implements EventStore {
+	private _adapter: KeyValueAdapter
+	private _prefix: string
+	private _ttl?: number
+	private _lastSequence = 0
+
+	constructor(options: KeyValueEventStoreOptions) {
+		this._adapter = options.adapter
+		this._prefix = options.prefix ?? "mcp:events:"
+		this._ttl = options.ttl
+	}
+
+	async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+		const sequence = this.nextSequence()
+		await this._adapter.put(this.eventKey(streamId, sequence), JSON.stringify(message), { ttl: this._ttl })
+		return createEventId(streamId, sequence)
+	}
+
+	async replayEventsAfter(
+		lastEventId: EventId,
+		{
+			send,
+		}: {
+			send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+		}
+	): Promise<StreamId> {
+		const { streamId, sequence } = parseEventId(lastEventId)
+		const streamPrefix = this.eventKey(streamId)
+
+		const sequences = (await this._adapter.list(streamPrefix))
+			.map((key) => Number(key.slice(streamPrefix.length)))
+			.filter((storedSequence) => storedSequence > sequence)
+			.sort((a, b) => a - b)
+
+		for (const storedSequence of sequences) {
+			const value = await this._adapter.get(this.eventKey(streamId, storedSequence))
+			if (value === undefined) {
+				// Expired between listing and reading
+				continue
+			}
+			await send(createEventId(streamId, storedSequence), JSON.parse(value))
+		}
+		return streamId
+	}
+
+	/**
+	 * Returns the storage key of an event, or the prefix shared by a whole stream when no sequence is given
+	 */
+	private eventKey(streamId: StreamId, sequence?: number): string {
+		const streamPrefix = `${this._prefix}${streamId}:`
+		return sequence === undefined ? streamPrefix : `${streamPrefix}${String(sequence).padStart(SEQUENCE_LENGTH, "0")}`
+	}
+
+	/**
+	 * Time-based sequence, kept strictly increasing within this instance.
+	 * Using milliseconds keeps events written by different instances roughly ordered.
+	 */
+	private nextSequence(): number {
+		const now = Date.now() * 1000
+		this._lastSequence = Math.max(now, this._lastSequence + 1)
+		return this._lastSequence
+	}
+}
@@ -0,0 +1,206 @@
+import { applyCorsHeaders, createCorsPreflightResponse } from "./cors"
+import { JSONRPCMethodNotAllowedError, JSONRPCServiceUnavailableError } from "./errors"
+import { type LegacySSEHandlerOptions, createLegacySSEHandler } from "./legacy-sse"
+import { withRateLimitStore } from "./rate-limit"
+import {
+	type ConnectableServer,
+	EdgeStreamableHTTPSessionManager,
+	type EdgeStreamableHTTPSessionManagerOptions,
+} from "./session-manager"
+import {
+	type DrainOptions,
+	EdgeStreamableHTTPTransport,
+	type EdgeStreamableHTTPTransportOptions,
+	type PlatformContext,
+} from "./transport"
+
+/**
+ * Standard Web Fetch API handler, as accepted by most edge runtimes and frameworks.
+ * The optional platform context lets the transport keep the isolate alive, see `PlatformContext`.
+ */
+export type McpFetchHandler = (request: Request, context?: PlatformContext) => Promise<Response>
+
+/**
+ * McpFetchHandler that can also shut down the sessions it serves, as returned by `createMcpFetchHandler`
+ */
+export interface DrainableMcpFetchHandler extends McpFetchHandler {
+	/**
+	 * Gracefully shuts down every session, see `EdgeStreamableHTTPTransport.drain`.
+	 * New sessions and requests are refused with 503 from now on.
+	 */
+	drain(options?: DrainOptions): Promise<void>
+
+	/**
+	 * Closes every session right away
+	 */
+	close(): Promise<void>
+}
+
+/**
+ * Configuration options for createMcpFetchHandler
+ */
+export interface McpFetchHandlerOptions extends Omit<EdgeStreamableHTTPSessionManagerOptions, "serverFactory"> {
+	/**
+	 * Path of the MCP endpoint. Requests to any other path are answered with 404.
+	 * When unset, every request is handled, leaving routing up to the framework.
+	 */
+	path?: string
+
+	/**
+	 * If true, every request is served by a fresh server and transport created for it alone,
+	 * and torn down once its response completes, so no state is ever shared between requests.
+	 * Without sessions there is nothing to resume or terminate: GET and DELETE requests are answered with 405,
+	 * and session related options are ignored. Suited to serverless deployments where consecutive requests
+	 * may reach different instances.
+	 */
+	stateless?: boolean
+
+	/**
+	 * Also serves clients of the legacy HTTP+SSE transport (protocol version 2024-11-05) on their own endpoints,
+	 * as recommended for backwards compatibility. Default paths are "/sse" and "/messages".
+	 */
+	legacySse?: boolean | Pick<LegacySSEHandlerOptions, "ssePath" | "messagesPath">
+}
+
+/**
+ * Creates a `(request) => Promise<Response>` handler serving an MCP server over Streamable HTTP.
+ * Every initialize request creates a new session with a fresh server from the factory,
+ * and later requests are routed to their session, unless `stateless` is set.
+ *
+ * ```typescript
+ * const handler = createMcpFetchHandler(() => createMcpServer(), { path: '/mcp' });
+ *
+ * const response = await handler(new Request('https://example.com/mcp', { method: 'POST', ... }));
+ *
+ * // On shutdown, let in-flight requests finish
+ * await handler.drain({ timeout: 10_000 });
+ * ```
+ */
+export function createMcpFetchHandler(
+	serverFactory: () => ConnectableServer | Promise<ConnectableServer>,
+	options: McpFetchHandlerOptions = {}
+): DrainableMcpFetchHandler {
+	const { path, stateless, legacySse, ...otherOptions } = options
+	// Rate limits apply across sessions, and the legacy endpoints, rather than per transport
+	const sessionManagerOptions = withRateLimitStore(otherOptions)
+	const sessions = stateless
+		? undefined
+		: new EdgeStreamableHTTPSessionManager({ ...sessionManagerOptions, serverFactory })
+
+	const legacySsePaths = legacySse === true ? {} : legacySse || undefined
+	const legacyHandler = legacySsePaths
+		? createLegacySSEHandler(serverFactory, { ...sessionManagerOptions, ...legacySsePaths })
+		: undefined
+	const { ssePath = "/sse", messagesPath = "/messages" } = legacySsePaths ?? {}
+	// Transports of the stateless requests being served, so they can be drained too
+	const statelessTransports: Set<EdgeStreamableHTTPTransport> = new Set()
+	let draining = false
+
+	const handler = async (request: Request, context?: PlatformContext) => {
+		if (legacyHandler) {
+			const { pathname } = new URL(request.url)
+			if (pathname === ssePath || pathname === messagesPath) {
+				return await legacyHandler(request, context)
+			}
+		}
+		if (path !== undefined && new URL(request.url).pathname !== path) {
+			return new Response("Not Found", { status: 404 })
+		}
+		if (!sessions) {
+			if (draining && request.method === "POST") {
+				const response = new JSONRPCServiceUnavailableError(
+					"Service Unavailable: Server is shutting down",
+					1
+				).toResponse()
+				return options.cors ? applyCorsHeaders(request, response, options.cors) : response
+			}
+			return await handleStatelessRequest(request, serverFactory, sessionManagerOptions, statelessTransports, context)
+		}
+		return await sessions.handleRequest(request, undefined, context)
+	}
+
+	return Object.assign(handler, {
+		async drain(drainOptions?: DrainOptions): Promise<void> {
+			draining = true
+			await Promise.all([
+				sessions?.drain(drainOptions),
+				legacyHandler?.drain(drainOptions),
+				...Array.from(statelessTransports, (transport) => transport.drain(drainOptions)),
+			])
+		},
+		async close(): Promise<void> {
+			await Promise.all([
+				sessions?.close(),
+				legacyHandler?.close(),
+				...Array.from(statelessTransports, (transport) => transport.close()),
+			])
+		},
+	})
+}
+
+/**
+ * Serves a single request with a server and transport created for it, and closes them once the response completes
+ */
+async function handleStatelessRequest(
+	request: Request,
+	serverFactory: () => ConnectableServer | Promise<ConnectableServer>,
+	options: Omit<EdgeStreamableHTTPTransportOptions, "sessionIdGenerator">,
+	transports: Set<EdgeStreamableHTTPTransport>,
+	context?: PlatformContext
+): Promise<Response> {
+	if (request.method === "OPTIONS") {
+		return createCorsPreflightResponse(request, options.cors, "POST, OPTIONS")
+	}
+	if (request.method === "GET" || request.method === "DELETE") {
+		const response = new JSONRPCMethodNotAllowedError(
+			"Method not allowed: the server does not keep sessions",
+			"POST, OPTIONS"
+		).toResponse()
+		return options.cors ? applyCorsHeaders(request, response, options.cors) : response
+	}
+
+	const transport = new EdgeStreamableHTTPTransport({ ...options, sessionIdGenerator: undefined })
+
+	// Refuse unauthorized clients before a server is built for them
+	const authInfo = await transport.authorizeRequest(request)
+	if (authInfo instanceof Response) {
+		return options.cors ? applyCorsHeaders(request, authInfo, options.cors) : authInfo
+	}
+
+	const server = await serverFactory()
+	await server.connect(transport)
+	transports.add(transport)
+
+	const close = () => {
+		transports.delete(transport)
+		transport.close().catch((error) => transport.onerror?.(error as Error))
+	}
+
+	let response: Response
+	try {
+		response = await transport.handleRequest(request, authInfo, context)
+	} catch (error) {
+		close()
+		throw error
+	}
+
+	if (!response.body) {
+		close()
+		return response
+	}
+
+	// SSE responses keep being written after being returned, only tear down once the body is fully sent or cancelled
+	const { readable, writable } = new TransformStream()
+	response.body
+		.pipeTo(writable)
+		.catch(() => {
+			// The client disconnected, the transport was told through the cancellation
+		})
+		.finally(close)
+
+	return new Response(readable, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	})
+}
@@ -0,0 +1,356 @@
+import {
+	type JSONRPCMessage,
+	JSONRPCMessageSchema,
+	type RequestId,
+	isJSONRPCError,
+	isJSONRPCRequest,
+	isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js"
+import { readRequestBody } from "./body"
+import { applyCorsHeaders, createCorsPreflightResponse } from "./cors"
+import {
+	JSONRPCBadRequestError,
+	JSONRPCConflictError,
+	JSONRPCInvalidRequestError,
+	JSONRPCMethodNotAllowedError,
+	JSONRPCParseError,
+	JSONRPCServiceUnavailableError,
+	JSONRPCSessionNotFoundError,
+	JSONRPCUnsupportedMediaTypeError,
+} from "./errors"
+import type { DrainableMcpFetchHandler } from "./fetch-handler"
+import { withRateLimitStore } from "./rate-limit"
+import type { ConnectableServer } from "./session-manager"
+import { getTraceContext } from "./telemetry"
+import {
+	type AuthInfo,
+	type DrainOptions,
+	EdgeStreamableHTTPTransport,
+	type EdgeStreamableHTTPTransportOptions,
+	type PlatformContext,
+} from "./transport"
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Configuration options for EdgeLegacySSETransport
+ */
+export interface EdgeLegacySSETransportOptions
+	extends Pick<
+		EdgeStreamableHTTPTransportOptions,
+		| "onsessioninitialized"
+		| "onsessionclosed"
+		| "sessionIdleTimeout"
+		| "sessionMaxLifetime"
+		| "allowedHosts"
+		| "allowedOrigins"
+		| "cors"
+		| "verifyAccessToken"
+		| "requiredScopes"
+		| "resourceMetadataUrl"
+		| "maxBodySize"
+		| "rateLimit"
+		| "sseHeartbeatInterval"
+		| "sseHighWaterMark"
+		| "sseOverflowPolicy"
+		| "ontelemetry"
+		| "middleware"
+		| "debug"
+	> {
+	/**
+	 * Path or URL clients POST their messages to, announced in the `endpoint` event.
+	 * The session ID is added as the `sessionId` query parameter.
+	 */
+	endpoint: string
+
+	/**
+	 * ID of the session. Defaults to `crypto.randomUUID()`.
+	 */
+	sessionId?: string
+}
+
+/**
+ * Edge-compatible server transport for the legacy HTTP+SSE transport of protocol version 2024-11-05,
+ * for clients that do not speak Streamable HTTP yet.
+ *
+ * - A GET request opens the SSE stream the whole session lives on, starting with an `endpoint` event
+ * - Messages are POSTed to that endpoint and answered with 202 Accepted, every message from the server goes to the stream
+ * - The session ends when the client closes the stream
+ *
+ * It shares its streams, validation and authentication with EdgeStreamableHTTPTransport.
+ * One transport serves a single session, see `createLegacySSEHandler` to serve any number of them.
+ */
+export class EdgeLegacySSETransport extends EdgeStreamableHTTPTransport {
+	private _endpoint: string
+
+	constructor(options: EdgeLegacySSETransportOptions) {
+		const sessionId = options.sessionId ?? crypto.randomUUID()
+		super({ ...options, sessionIdGenerator: () => sessionId })
+		this._endpoint = options.endpoint
+		this.sessionId = sessionId
+	}
+
+	/**
+	 * Sends a message on the SSE stream of the session
+	 */
+	override async send(outboundMessage: JSONRPCMessage, options?: { relatedRequestId?: RequestId }): Promise<void> {
+		const controller = this._streamMapping.get(this._standaloneSseStreamId)
+		if (!controller) {
+			throw new Error("Not connected")
+		}
+
+		this.resetIdleTimer()
+		const relatedRequestId =
+			isJSONRPCResponse(outboundMessage) || isJSONRPCError(outboundMessage)
+				? outboundMessage.id
+				: options?.relatedRequestId
+		if (isJSONRPCResponse(outboundMessage) || isJSONRPCError(outboundMessage)) {
+			// Answered, even if the middleware drops the response
+			this._requestAbortControllers.delete(outboundMessage.id)
+		}
+		const message = await this.applyOutboundMiddleware(outboundMessage, relatedRequestId)
+		if (message === null) {
+			return
+		}
+		await this.writeSSEEvent(controller, message)
+		this.emitTelemetry({
+			type: "message_sent",
+			streamId: this._standaloneSseStreamId,
+			message,
+			sessionId: this.sessionId,
+		})
+	}
+
+	/**
+	 * Opens the SSE stream of the session and announces the endpoint messages are POSTed to
+	 */
+	protected override async handleGetRequest(request: Request): Promise<Response> {
+		if (this._draining) {
+			return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse(
+				this._debug
+			)
+		}
+		if (this._initialized) {
+			return new JSONRPCConflictError("Conflict: The SSE stream of this session was already opened").toResponse()
+		}
+
+		const { readable, controller } = this.createSSEStream()
+		this._streamMapping.set(this._standaloneSseStreamId, controller)
+		this._initialized = true
+		this.emitTelemetry({ type: "stream_opened", streamId: this._standaloneSseStreamId, sessionId: this.sessionId })
+
+		const sessionId = this.sessionId as string
+		this._onsessioninitialized?.(sessionId)
+		this.emitTelemetry({ type: "session_initialized", sessionId })
+		this.startSessionTimers()
+
+		const isAbsolute = /^[a-z][a-z\d+\-.]*:/i.test(this._endpoint)
+		const endpointUrl = new URL(this._endpoint, request.url)
+		endpointUrl.searchParams.set("sessionId", sessionId)
+		// Relative endpoints are announced relative to the host, like the reference implementation does
+		const endpoint = isAbsolute ? endpointUrl.href : `${endpointUrl.pathname}${endpointUrl.search}`
+		// The endpoint event carries a plain URL rather than a JSON-RPC message
+		this.enqueueSSEChunk(controller, textEncoder.encode(`event: endpoint\ndata: ${endpoint}\n\n`))
+
+		return new Response(readable, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache, no-transform",
+				Connection: "keep-alive",
+			},
+		})
+	}
+
+	/**
+	 * Handles the messages POSTed by the client, whose answers are sent on the SSE stream
+	 */
+	protected override async handlePostRequest(
+		request: Request,
+		body: string | undefined,
+		authInfo?: AuthInfo,
+		context?: PlatformContext
+	): Promise<Response> {
+		if (!this._streamMapping.has(this._standaloneSseStreamId)) {
+			return new JSONRPCBadRequestError("Bad Request: SSE connection not established").toResponse()
+		}
+
+		const contentType = request.headers.get("content-type")
+		if (!contentType?.includes("application/json")) {
+			return new JSONRPCUnsupportedMediaTypeError(
+				"Unsupported Media Type: Content-Type must be application/json"
+			).toResponse()
+		}
+
+		let rawBody = body
+		if (rawBody === undefined) {
+			const bodyResult = await readRequestBody(request, { maxBodySize: this._maxBodySize })
+			if (bodyResult instanceof Response) {
+				return bodyResult
+			}
+			rawBody = bodyResult
+		}
+
+		let rawMessage: unknown
+		try {
+			rawMessage = JSON.parse(rawBody)
+		} catch (error) {
+			return new JSONRPCParseError({ data: String(error), cause: error }).toResponse(this._debug)
+		}
+
+		const messages: JSONRPCMessage[] = []
+		for (const rawItem of Array.isArray(rawMessage) ? rawMessage : [rawMessage]) {
+			const result = JSONRPCMessageSchema.safeParse(rawItem)
+			if (!result.success) {
+				return new JSONRPCInvalidRequestError("Invalid Request", { data: result.error.issues }).toResponse(this._debug)
+			}
+			messages.push(result.data)
+		}
+
+		if (this._draining && messages.some(isJSONRPCRequest)) {
+			return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse(
+				this._debug
+			)
+		}
+
+		this.resetIdleTimer()
+		const traceContext = getTraceContext(request)
+		for (const message of messages) {
+			if (isJSONRPCRequest(message)) {
+				// Lets the server stop working on requests of a closed session, and drain() wait for the others
+				this._requestAbortControllers.set(message.id, new AbortController())
+			}
+			this.dispatchMessage(message, request, { authInfo, traceContext })
+		}
+		this.waitForInboundQueue(context)
+
+		return new Response("Accepted", { status: 202 })
+	}
+
+	/**
+	 * Legacy sessions end when the client closes their stream, there is nothing to delete
+	 */
+	protected override async handleDeleteRequest(): Promise<Response> {
+		return new JSONRPCMethodNotAllowedError("Method not allowed.", "GET, POST").toResponse()
+	}
+
+	/**
+	 * Closes the session once the client is gone from its stream, as it cannot reconnect to it
+	 */
+	protected override handleClientDisconnect(streamId: string): void {
+		if (streamId === this._standaloneSseStreamId) {
+			this.closeSession("disconnected").catch((error) => this.onerror?.(error as Error))
+		}
+	}
+}
+
+/**
+ * Configuration options for createLegacySSEHandler
+ */
+export interface LegacySSEHandlerOptions extends Omit<EdgeLegacySSETransportOptions, "endpoint" | "sessionId"> {
+	/**
+	 * Path of the endpoint clients open the SSE stream on. Default is "/sse".
+	 */
+	ssePath?: string
+
+	/**
+	 * Path of the endpoint clients POST their messages to. Default is "/messages".
+	 */
+	messagesPath?: string
+}
+
+/**
+ * Creates a `(request) => Promise<Response>` handler serving an MCP server over the legacy HTTP+SSE transport.
+ * Every GET request on `ssePath` creates a new session with a fresh server from the factory,
+ * and messages POSTed to `messagesPath` are routed to their session through the `sessionId` query parameter.
+ * Requests to any other path are answered with 404.
+ *
+ * See the `legacySse` option of `createMcpFetchHandler` to serve both transports from one deployment.
+ */
+export function createLegacySSEHandler(
+	serverFactory: () => ConnectableServer | Promise<ConnectableServer>,
+	options: LegacySSEHandlerOptions = {}
+): DrainableMcpFetchHandler {
+	const { ssePath = "/sse", messagesPath = "/messages", ...otherOptions } = options
+	const transportOptions = withRateLimitStore(otherOptions)
+	const transports: Map<string, EdgeLegacySSETransport> = new Map()
+	let draining = false
+
+	const handleRequest = async (request: Request, context?: PlatformContext): Promise<Response> => {
+		const url = new URL(request.url)
+
+		if ((url.pathname === ssePath || url.pathname === messagesPath) && request.method === "OPTIONS") {
+			return createCorsPreflightResponse(
+				request,
+				options.cors,
+				url.pathname === ssePath ? "GET, OPTIONS" : "POST, OPTIONS"
+			)
+		}
+
+		if (url.pathname === ssePath && request.method === "GET") {
+			if (draining) {
+				return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse()
+			}
+			const transport = new EdgeLegacySSETransport({ ...transportOptions, endpoint: messagesPath })
+
+			// Refuse unauthorized clients before a server is built for them
+			const authInfo = await transport.authorizeRequest(request)
+			if (authInfo instanceof Response) {
+				return authInfo
+			}
+
+			const server = await serverFactory()
+			await server.connect(transport)
+
+			// The server replaces onclose when connecting, so we chain ours afterwards
+			const onclose = transport.onclose
+			transport.onclose = () => {
+				transports.delete(transport.sessionId as string)
+				onclose?.()
+			}
+
+			const response = await transport.handleRequest(request, authInfo, context)
+			if (response.ok) {
+				transports.set(transport.sessionId as string, transport)
+			} else {
+				await transport.close()
+			}
+			return response
+		}
+
+		if (url.pathname === messagesPath && request.method === "POST") {
+			const sessionId = url.searchParams.get("sessionId")
+			if (!sessionId) {
+				return new JSONRPCBadRequestError("Bad Request: sessionId query parameter is required").toResponse()
+			}
+
+			const transport = transports.get(sessionId)
+			if (!transport) {
+				return new JSONRPCSessionNotFoundError().toResponse()
+			}
+			return await transport.handleRequest(request, undefined, context)
+		}
+
+		if (url.pathname === ssePath || url.pathname === messagesPath) {
+			return new Response(null, {
+				status: 405,
+				headers: { Allow: url.pathname === ssePath ? "GET, OPTIONS" : "POST, OPTIONS" },
+			})
+		}
+		return new Response("Not Found", { status: 404 })
+	}
+
+	const handler = async (request: Request, context?: PlatformContext) => {
+		const response = await handleRequest(request, context)
+		return options.cors ? applyCorsHeaders(request, response, options.cors) : response
+	}
+
+	return Object.assign(handler, {
+		async drain(drainOptions?: DrainOptions): Promise<void> {
+			draining = true
+			await Promise.all(Array.from(transports.values(), (transport) => transport.drain(drainOptions)))
+		},
+		async close(): Promise<void> {
+			await Promise.all(Array.from(transports.values(), (transport) => transport.close()))
+		},
+	})
+}
@@ -0,0 +1,73 @@
+import type { JSONRPCMessage, RequestId } from "@modelcontextprotocol/sdk/types.js"
+import type { AuthInfo } from "./transport"
+
+/**
+ * What an inbound middleware knows about the message it sees
+ */
+export interface InboundMessageContext {
+	/**
+	 * HTTP request that carried the message
+	 */
+	request: Request
+
+	/**
+	 * Authentication of the request, if any
+	 */
+	authInfo?: AuthInfo
+
+	sessionId?: string
+}
+
+/**
+ * What an outbound middleware knows about the message it sees
+ */
+export interface OutboundMessageContext {
+	/**
+	 * ID of the request the message answers or relates to, undefined for messages of the standalone stream
+	 */
+	relatedRequestId?: RequestId
+
+	sessionId?: string
+}
+
+/**
+ * Result of a middleware: the message to pass on, which may be a modified copy, or null to drop it.
+ * Inbound middleware may also return a JSON-RPC response or error for a request, answering it right away
+ * without it ever reaching the server.
+ */
+export type MessageMiddlewareResult = JSONRPCMessage | null
+
+/**
+ * Intercepts the messages exchanged with the client, e.g. to enforce method allowlists, redact secrets,
+ * inject metadata or log traffic.
+ *
+ * Dropped requests are answered with a "Method not found" error, short-circuit them to answer otherwise.
+ * Dropped responses still count as answers: the client never sees them, but their stream ends as usual.
+ * Throwing from a middleware answers the request being handled with an internal error.
+ *
+ * ```typescript
+ * const allowlist: MessageMiddleware = {
+ *   inbound: (message) =>
+ *     isJSONRPCRequest(message) && !ALLOWED_METHODS.includes(message.method)
+ *       ? { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } }
+ *       : message,
+ * };
+ * ```
+ */
+export interface MessageMiddleware {
+	/**
+	 * Sees every message received from the client, before it is passed to `onmessage`
+	 */
+	inbound?: (
+		message: JSONRPCMessage,
+		context: InboundMessageContext
+	) => MessageMiddlewareResult | Promise<MessageMiddlewareResult>
+
+	/**
+	 * Sees every message sent to the client, before it is written to its SSE stream or JSON response
+	 */
+	outbound?: (
+		message: JSONRPCMessage,
+		context: OutboundMessageContext
+	) => MessageMiddlewareResult | Promise<MessageMiddlewareResult>
+}
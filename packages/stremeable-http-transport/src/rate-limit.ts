@@ -0,0 +1,97 @@
+/**
+ * Token bucket settings: a bucket holds up to `capacity` tokens, refilled continuously at `refillPerSecond`
+ */
+export interface TokenBucketOptions {
+	capacity: number
+	refillPerSecond: number
+}
+
+/**
+ * Storage of token buckets, to share rate limits across instances.
+ * Small enough to be backed by Durable Objects, Redis or any store supporting atomic updates.
+ */
+export interface RateLimitStore {
+	/**
+	 * Takes a token from the bucket stored under the key, refilling it first according to the elapsed time
+	 * @returns 0 when a token was taken, otherwise the time in milliseconds until one will be available
+	 */
+	take(key: string, bucket: TokenBucketOptions): Promise<number>
+}
+
+/**
+ * Configuration of the request rate limit of a transport
+ */
+export interface RateLimitOptions extends TokenBucketOptions {
+	/**
+	 * Where buckets are stored. Defaults to an InMemoryRateLimitStore, shared by the transports
+	 * of a session manager or fetch handler, and owned by the transport otherwise.
+	 */
+	store?: RateLimitStore
+
+	/**
+	 * Returns the key of the bucket a request takes its token from, or undefined to not limit it.
+	 * Defaults to the session ID, so requests made before initialization are not limited.
+	 */
+	key?: (request: Request, sessionId: string | undefined) => string | undefined
+}
+
+/**
+ * Number of `take` calls between two sweeps of the buckets that refilled completely
+ */
+const SWEEP_INTERVAL = 1000
+
+/**
+ * RateLimitStore keeping buckets in memory.
+ * Only suitable when every request of a key reaches the same instance.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+	private _buckets: Map<string, { tokens: number; updatedAt: number; bucket: TokenBucketOptions }> = new Map()
+	private _takesUntilSweep = SWEEP_INTERVAL
+
+	async take(key: string, bucket: TokenBucketOptions): Promise<number> {
+		const now = Date.now()
+		if (--this._takesUntilSweep <= 0) {
+			this.sweep(now)
+		}
+
+		const stored = this._buckets.get(key)
+		const tokens = stored ? refill(stored.tokens, now - stored.updatedAt, bucket) : bucket.capacity
+		if (tokens < 1) {
+			this._buckets.set(key, { tokens, updatedAt: now, bucket })
+			return Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000)
+		}
+
+		this._buckets.set(key, { tokens: tokens - 1, updatedAt: now, bucket })
+		return 0
+	}
+
+	/**
+	 * Forgets the buckets that refilled completely, as they behave like missing ones
+	 */
+	private sweep(now: number): void {
+		this._takesUntilSweep = SWEEP_INTERVAL
+		for (const [key, stored] of this._buckets) {
+			if (refill(stored.tokens, now - stored.updatedAt, stored.bucket) >= stored.bucket.capacity) {
+				this._buckets.delete(key)
+			}
+		}
+	}
+}
+
+/**
+ * Returns options whose rate limit, if any, has a store, so every transport created from them shares its buckets.
+ * Used by the session manager and the fetch handlers, which would otherwise get a store per session.
+ */
+export function withRateLimitStore<T extends { rateLimit?: RateLimitOptions }>(options: T): T {
+	if (!options.rateLimit || options.rateLimit.store) {
+		return options
+	}
+	return { ...options, rateLimit: { ...options.rateLimit, store: new InMemoryRateLimitStore() } }
+}
+
+/**
+ * Returns the number of tokens of a bucket once refilled for the elapsed time
+ */
+function refill(tokens: number, elapsedMs: number, bucket: TokenBucketOptions): number {
+	return Math.min(bucket.capacity, tokens + (elapsedMs / 1000) * bucket.refillPerSecond)
+}
@@ -0,0 +1,279 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import { readRequestBody } from "./body"
+import { applyCorsHeaders, createCorsPreflightResponse } from "./cors"
+import { JSONRPCBadRequestError, JSONRPCServiceUnavailableError, JSONRPCSessionNotFoundError } from "./errors"
+import { withRateLimitStore } from "./rate-limit"
+import {
+	type AuthInfo,
+	DEFAULT_NEGOTIATED_PROTOCOL_VERSION,
+	type DrainOptions,
+	EdgeStreamableHTTPTransport,
+	type EdgeStreamableHTTPTransportOptions,
+	type PlatformContext,
+} from "./transport"
+
+/**
+ * Minimal contract of an MCP server that can be attached to a transport.
+ * Both `Server` and `McpServer` from the MCP SDK satisfy it.
+ */
+export interface ConnectableServer {
+	connect(transport: Transport): Promise<void>
+}
+
+/**
+ * Configuration options for EdgeStreamableHTTPSessionManager
+ */
+export interface EdgeStreamableHTTPSessionManagerOptions
+	extends Omit<EdgeStreamableHTTPTransportOptions, "sessionIdGenerator"> {
+	/**
+	 * Creates the MCP server that will be connected to the transport of a new session.
+	 * Called once per initialize request.
+	 */
+	serverFactory: () => ConnectableServer | Promise<ConnectableServer>
+
+	/**
+	 * Function that generates a session ID for each new transport.
+	 * Defaults to `crypto.randomUUID()`.
+	 */
+	sessionIdGenerator?: () => string
+}
+
+/**
+ * Routes Streamable HTTP requests to per-session EdgeStreamableHTTPTransport instances.
+ *
+ * A new transport (and server, through the factory) is created for every initialize request.
+ * Subsequent requests are routed by their `mcp-session-id` header, and a session is forgotten
+ * as soon as its transport is closed. With a `broker`, the sessions initialized by other instances
+ * are taken over on their first request here, with a fresh server from the factory.
+ *
+ * ```typescript
+ * const sessions = new EdgeStreamableHTTPSessionManager({
+ *   serverFactory: () => createMcpServer(),
+ * });
+ *
+ * app.all('/mcp', async (c) => {
+ *   return await sessions.handleRequest(c.req.raw);
+ * });
+ * ```
+ */
+export class EdgeStreamableHTTPSessionManager {
+	private _options: EdgeStreamableHTTPSessionManagerOptions
+	private _transports: Map<string, EdgeStreamableHTTPTransport> = new Map()
+	private _draining = false
+
+	constructor(options: EdgeStreamableHTTPSessionManagerOptions) {
+		this._options = withRateLimitStore(options)
+	}
+
+	/**
+	 * Number of sessions currently registered
+	 */
+	get size(): number {
+		return this._transports.size
+	}
+
+	/**
+	 * Returns the transport registered for the given session ID, if any
+	 */
+	get(sessionId: string): EdgeStreamableHTTPTransport | undefined {
+		return this._transports.get(sessionId)
+	}
+
+	/**
+	 * Handles an incoming HTTP request, creating a new session on initialize
+	 * or routing it to the transport that owns its session ID.
+	 * When no body is given, it is read from the request stream.
+	 * The platform context is handed over to the transport, see `EdgeStreamableHTTPTransport.handleRequest`.
+	 */
+	async handleRequest(request: Request, authInfo?: AuthInfo, context?: PlatformContext): Promise<Response>
+	async handleRequest(request: Request, body: string, authInfo?: AuthInfo, context?: PlatformContext): Promise<Response>
+	async handleRequest(
+		request: Request,
+		bodyOrAuthInfo?: string | AuthInfo,
+		authInfoOrContext?: AuthInfo | PlatformContext,
+		context?: PlatformContext
+	): Promise<Response> {
+		const body = typeof bodyOrAuthInfo === "string" ? bodyOrAuthInfo : undefined
+		const givenAuthInfo =
+			typeof bodyOrAuthInfo === "string" ? (authInfoOrContext as AuthInfo | undefined) : bodyOrAuthInfo
+		const platformContext =
+			typeof bodyOrAuthInfo === "string" ? context : (authInfoOrContext as PlatformContext | undefined)
+
+		const response = await this.routeRequest(request, body, givenAuthInfo, platformContext)
+		return this._options.cors ? applyCorsHeaders(request, response, this._options.cors) : response
+	}
+
+	/**
+	 * Routes a request to the transport of its session, or to a new one for initialize requests
+	 */
+	private async routeRequest(
+		request: Request,
+		givenBody: string | undefined,
+		givenAuthInfo: AuthInfo | undefined,
+		context: PlatformContext | undefined
+	): Promise<Response> {
+		let body = givenBody
+		const sessionId = request.headers.get("mcp-session-id")
+
+		// Preflight requests never carry the session ID, there is no transport to hand them over to
+		if (request.method === "OPTIONS") {
+			return createCorsPreflightResponse(request, this._options.cors)
+		}
+
+		if (sessionId) {
+			const transport = this._transports.get(sessionId)
+			if (!transport && this._options.broker) {
+				return await this.takeOverSession(sessionId, request, body, givenAuthInfo, context)
+			}
+			if (!transport) {
+				return new JSONRPCSessionNotFoundError().toResponse()
+			}
+			return body === undefined
+				? await transport.handleRequest(request, givenAuthInfo, context)
+				: await transport.handleRequest(request, body, givenAuthInfo, context)
+		}
+
+		if (request.method === "POST") {
+			// The body is needed to tell initialize requests apart, read it once and hand it over to the transport
+			if (body === undefined) {
+				const bodyResult = await readRequestBody(request, { maxBodySize: this._options.maxBodySize })
+				if (bodyResult instanceof Response) {
+					return bodyResult
+				}
+				body = bodyResult
+			}
+
+			if (this.isInitializationBody(body)) {
+				if (this._draining) {
+					return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse()
+				}
+				const transport = this.createTransport()
+
+				// Refuse unauthorized clients before a server is built for them
+				const authInfo = await transport.authorizeRequest(request, givenAuthInfo)
+				if (authInfo instanceof Response) {
+					return authInfo
+				}
+
+				await this.connectServer(transport)
+				const response = await transport.handleRequest(request, body, authInfo, context)
+				if (!response.ok) {
+					// No session was established, the server must not outlive the request
+					await transport.close()
+				}
+				return response
+			}
+		}
+
+		return new JSONRPCBadRequestError("Bad Request: Mcp-Session-Id header is required").toResponse()
+	}
+
+	/**
+	 * Serves a session initialized by another instance sharing the broker, see `EdgeStreamableHTTPTransport.attachSession`.
+	 * The session ID cannot be verified, so it must be unguessable, as any session ID should be.
+	 */
+	private async takeOverSession(
+		sessionId: string,
+		request: Request,
+		body: string | undefined,
+		givenAuthInfo: AuthInfo | undefined,
+		context: PlatformContext | undefined
+	): Promise<Response> {
+		if (this._draining) {
+			return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse()
+		}
+		const transport = this.createTransport()
+
+		// Refuse unauthorized clients before a server is built for them
+		const authInfo = await transport.authorizeRequest(request, givenAuthInfo)
+		if (authInfo instanceof Response) {
+			return authInfo
+		}
+
+		await this.connectServer(transport)
+		// A concurrent request of the session may have taken it over meanwhile
+		let sessionTransport = this._transports.get(sessionId)
+		if (sessionTransport) {
+			await transport.close()
+		} else {
+			transport.attachSession(
+				sessionId,
+				request.headers.get("mcp-protocol-version") ?? DEFAULT_NEGOTIATED_PROTOCOL_VERSION
+			)
+			this._transports.set(sessionId, transport)
+			sessionTransport = transport
+		}
+		return body === undefined
+			? await sessionTransport.handleRequest(request, authInfo, context)
+			: await sessionTransport.handleRequest(request, body, authInfo, context)
+	}
+
+	/**
+	 * Drains every registered transport, see `EdgeStreamableHTTPTransport.drain`.
+	 * New sessions are refused with 503 from now on.
+	 */
+	async drain(options?: DrainOptions): Promise<void> {
+		this._draining = true
+		const transports = Array.from(this._transports.values())
+		await Promise.all(transports.map((transport) => transport.drain(options)))
+	}
+
+	/**
+	 * Closes every registered transport
+	 */
+	async close(): Promise<void> {
+		const transports = Array.from(this._transports.values())
+		this._transports.clear()
+		await Promise.all(transports.map((transport) => transport.close()))
+	}
+
+	/**
+	 * Creates a transport for a new session, registered once the session is initialized
+	 */
+	private createTransport(): EdgeStreamableHTTPTransport {
+		const { serverFactory, sessionIdGenerator, onsessioninitialized, ...transportOptions } = this._options
+
+		const transport = new EdgeStreamableHTTPTransport({
+			...transportOptions,
+			sessionIdGenerator: sessionIdGenerator ?? (() => crypto.randomUUID()),
+			onsessioninitialized: (sessionId) => {
+				this._transports.set(sessionId, transport)
+				onsessioninitialized?.(sessionId)
+			},
+		})
+
+		return transport
+	}
+
+	/**
+	 * Connects a fresh server to the transport of a new session
+	 */
+	private async connectServer(transport: EdgeStreamableHTTPTransport): Promise<void> {
+		const server = await this._options.serverFactory()
+		await server.connect(transport)
+
+		// The server replaces onclose when connecting, so we chain ours afterwards
+		const onclose = transport.onclose
+		transport.onclose = () => {
+			if (transport.sessionId !== undefined) {
+				this._transports.delete(transport.sessionId)
+			}
+			onclose?.()
+		}
+	}
+
+	/**
+	 * Checks whether a raw POST body contains an initialize request.
+	 * Malformed bodies are treated as non-initialization requests.
+	 */
+	private isInitializationBody(body: string): boolean {
+		try {
+			const rawMessage = JSON.parse(body)
+			const messages = Array.isArray(rawMessage) ? rawMessage : [rawMessage]
+			return messages.some(isInitializeRequest)
+		} catch (_error) {
+			return false
+		}
+	}
+}
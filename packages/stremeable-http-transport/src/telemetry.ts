@@ -0,0 +1,172 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import type { EventId, SessionCloseReason, StreamId } from "./transport"
+
+/**
+ * W3C trace context of an incoming request
+ * https://www.w3.org/TR/trace-context/
+ */
+export interface TraceContext {
+	traceparent: string
+	tracestate?: string
+}
+
+/**
+ * Structured events describing what the transport is doing, reported through the `ontelemetry` option
+ */
+export type TransportTelemetryEvent =
+	| {
+			type: "request"
+			/** HTTP method of the request */
+			method: string
+			/** HTTP status of the response */
+			status: number
+			/** Time spent until the response was returned, in milliseconds. SSE streams may keep running afterwards. */
+			durationMs: number
+			sessionId?: string
+			traceContext?: TraceContext
+	  }
+	| { type: "session_initialized"; sessionId: string }
+	| { type: "session_closed"; sessionId: string; reason: SessionCloseReason }
+	| { type: "stream_opened"; streamId: StreamId; sessionId?: string }
+	| { type: "stream_closed"; streamId: StreamId; sessionId?: string }
+	| { type: "stream_resumed"; streamId: StreamId; lastEventId: EventId; sessionId?: string }
+	| { type: "event_stored"; streamId: StreamId; eventId: EventId; sessionId?: string }
+	| { type: "events_replayed"; streamId: StreamId; count: number; sessionId?: string }
+	| { type: "message_sent"; streamId: StreamId; message: JSONRPCMessage; sessionId?: string }
+	| { type: "event_dropped"; streamId: StreamId; message: JSONRPCMessage; sessionId?: string }
+
+const TRACEPARENT_PATTERN = /^[0-9a-f]{2}-[0-9a-f]{32}-[0-9a-f]{16}-[0-9a-f]{2}$/
+
+/**
+ * Extracts the W3C trace context from the headers of a request.
+ * Returns undefined when the request has no valid `traceparent` header.
+ */
+export function getTraceContext(request: Request): TraceContext | undefined {
+	const traceparent = request.headers.get("traceparent")?.trim().toLowerCase()
+	if (!traceparent || !TRACEPARENT_PATTERN.test(traceparent)) {
+		return undefined
+	}
+
+	const tracestate = request.headers.get("tracestate") ?? undefined
+	return tracestate ? { traceparent, tracestate } : { traceparent }
+}
+
+/**
+ * Subset of the OpenTelemetry `Span` API used by the telemetry adapter
+ */
+export interface SpanLike {
+	setAttribute(key: string, value: string | number | boolean): unknown
+	setStatus(status: { code: number; message?: string }): unknown
+	end(endTime?: number): void
+}
+
+/**
+ * Subset of the OpenTelemetry `Tracer` API used by the telemetry adapter
+ */
+export interface TracerLike {
+	startSpan(
+		name: string,
+		options?: { kind?: number; startTime?: number; attributes?: Record<string, string | number | boolean> },
+		context?: unknown
+	): SpanLike
+}
+
+/**
+ * Options for createOpenTelemetryHandler
+ */
+export interface OpenTelemetryHandlerOptions {
+	/**
+	 * Turns the trace context of an incoming request into the parent context of its span,
+	 * e.g. `(carrier) => propagation.extract(ROOT_CONTEXT, carrier)` with `@opentelemetry/api`.
+	 * Request spans are root spans when omitted.
+	 */
+	extractContext?: (carrier: TraceContext) => unknown
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+const SPAN_KIND_SERVER = 1
+const SPAN_KIND_INTERNAL = 0
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Creates an `ontelemetry` handler emitting spans through an OpenTelemetry-compatible tracer.
+ * Requests become server spans covering the time until their response was returned,
+ * and every other event becomes an instant internal span.
+ *
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const transport = new EdgeStreamableHTTPTransport({
+ *   sessionIdGenerator: () => crypto.randomUUID(),
+ *   ontelemetry: createOpenTelemetryHandler(trace.getTracer('mcp')),
+ * });
+ * ```
+ */
+export function createOpenTelemetryHandler(
+	tracer: TracerLike,
+	options: OpenTelemetryHandlerOptions = {}
+): (event: TransportTelemetryEvent) => void {
+	return (event) => {
+		const attributes: Record<string, string | number | boolean> = {}
+		if (event.type !== "session_initialized" && event.type !== "session_closed" && event.sessionId !== undefined) {
+			attributes["mcp.session.id"] = event.sessionId
+		}
+
+		if (event.type === "request") {
+			const now = Date.now()
+			const parentContext =
+				event.traceContext && options.extractContext ? options.extractContext(event.traceContext) : undefined
+			const span = tracer.startSpan(
+				`MCP ${event.method}`,
+				{
+					kind: SPAN_KIND_SERVER,
+					startTime: now - event.durationMs,
+					attributes: {
+						...attributes,
+						"http.request.method": event.method,
+						"http.response.status_code": event.status,
+					},
+				},
+				parentContext
+			)
+			if (event.status >= 500) {
+				span.setStatus({ code: SPAN_STATUS_ERROR })
+			}
+			span.end(now)
+			return
+		}
+
+		switch (event.type) {
+			case "session_initialized":
+				attributes["mcp.session.id"] = event.sessionId
+				break
+			case "session_closed":
+				attributes["mcp.session.id"] = event.sessionId
+				attributes["mcp.session.close_reason"] = event.reason
+				break
+			case "stream_resumed":
+				attributes["mcp.stream.id"] = event.streamId
+				attributes["mcp.event.last_id"] = event.lastEventId
+				break
+			case "event_stored":
+				attributes["mcp.stream.id"] = event.streamId
+				attributes["mcp.event.id"] = event.eventId
+				break
+			case "events_replayed":
+				attributes["mcp.stream.id"] = event.streamId
+				attributes["mcp.event.count"] = event.count
+				break
+			case "message_sent":
+			case "event_dropped":
+				attributes["mcp.stream.id"] = event.streamId
+				if ("method" in event.message) {
+					attributes["mcp.method.name"] = event.message.method
+				}
+				break
+			default:
+				attributes["mcp.stream.id"] = event.streamId
+		}
+
+		tracer.startSpan(`mcp.${event.type}`, { kind: SPAN_KIND_INTERNAL, attributes }).end()
+	}
+}
@@ -0,0 +1,2324 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import {
+	ErrorCode,
+	type JSONRPCError,
+	type JSONRPCMessage,
+	JSONRPCMessageSchema,
+	type JSONRPCNotification,
+	type JSONRPCRequest,
+	type RequestId,
+	SUPPORTED_PROTOCOL_VERSIONS,
+	isInitializeRequest,
+	isJSONRPCError,
+	isJSONRPCNotification,
+	isJSONRPCRequest,
+	isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js"
+import { type AccessTokenVerifier, authenticateBearerRequest } from "./auth"
+import { MAXIMUM_MESSAGE_SIZE, readRequestBody } from "./body"
+import type { BrokerMessage, MessageBroker } from "./broker"
+import { type CorsOptions, applyCorsHeaders, createCorsPreflightResponse } from "./cors"
+import {
+	JSONRPCBadRequestError,
+	JSONRPCConflictError,
+	type JSONRPCErrorResponse,
+	JSONRPCForbiddenError,
+	JSONRPCInternalError,
+	JSONRPCInvalidRequestError,
+	JSONRPCMethodNotAllowedError,
+	JSONRPCNotAcceptableError,
+	JSONRPCParseError,
+	JSONRPCPayloadTooLargeError,
+	JSONRPCServiceUnavailableError,
+	JSONRPCSessionNotFoundError,
+	JSONRPCTooManyRequestsError,
+	JSONRPCTransportError,
+	JSONRPCUnsupportedMediaTypeError,
+} from "./errors"
+import type { MessageMiddleware } from "./middleware"
+import { InMemoryRateLimitStore, type RateLimitOptions, type RateLimitStore } from "./rate-limit"
+import { type TraceContext, type TransportTelemetryEvent, getTraceContext } from "./telemetry"
+
+/**
+ * Encoder shared by every stream, as encoding is stateless
+ */
+const textEncoder = new TextEncoder()
+
+/**
+ * Checks whether a string takes more than the given number of bytes once encoded as UTF-8
+ */
+function exceedsByteLength(text: string, maxBytes: number): boolean {
+	// A UTF-16 code unit takes between one and three bytes in UTF-8, only encode when it matters
+	if (text.length > maxBytes) {
+		return true
+	}
+	if (text.length * 3 <= maxBytes) {
+		return false
+	}
+	return textEncoder.encode(text).byteLength > maxBytes
+}
+
+/**
+ * Protocol version assumed when a client sends no MCP-Protocol-Version header and none was negotiated
+ */
+export const DEFAULT_NEGOTIATED_PROTOCOL_VERSION = "2025-03-26"
+
+/**
+ * First protocol version in which JSON-RPC batching was removed
+ */
+const BATCHING_REMOVED_PROTOCOL_VERSION = "2025-06-18"
+
+export type StreamId = string
+export type EventId = string
+
+/**
+ * Reason a session was closed, as reported to `onsessionclosed`
+ * - deleted: the client terminated the session with a DELETE request
+ * - idle: no activity happened within `sessionIdleTimeout`
+ * - expired: the session outlived `sessionMaxLifetime`
+ * - shutdown: the transport was closed by the server
+ * - disconnected: the client closed the legacy HTTP+SSE stream the session lived on
+ */
+export type SessionCloseReason = "deleted" | "idle" | "expired" | "shutdown" | "disconnected"
+
+/**
+ * Values accepted for a request header.
+ * Either a list of exact values or wildcard patterns (`*` matches any sequence of characters, e.g. `*.example.com`),
+ * or a predicate receiving the header value and the request.
+ */
+export type AllowList = string[] | ((value: string, request: Request) => boolean)
+
+/**
+ * What to do when the queue of an SSE stream is full because the client does not read it fast enough
+ * - wait: `send()` only resolves once the client has read enough of the queue
+ * - drop-oldest: the oldest queued notifications are dropped to make room, responses and requests are always kept
+ * - disconnect: the stream is closed, as if the client had disconnected
+ */
+export type SSEOverflowPolicy = "wait" | "drop-oldest" | "disconnect"
+
+/**
+ * How the answers of a POST request are delivered
+ * - sse: on an SSE stream, along with the notifications and requests the server sends while working on them
+ * - json: as a JSON body once every request is answered, anything else related to the requests is discarded
+ * - hybrid: as a JSON body if every request is answered quickly, upgrading to an SSE stream as soon as the server
+ *   sends a notification or request related to them, or once `hybridUpgradeDelay` is over
+ */
+export type ResponseMode = "sse" | "json" | "hybrid"
+
+/**
+ * Default time a hybrid mode POST waits for its answers before upgrading to an SSE stream
+ */
+const DEFAULT_HYBRID_UPGRADE_DELAY = 1000
+
+/**
+ * Options of `drain()`
+ */
+export interface DrainOptions {
+	/**
+	 * Maximum time in milliseconds to wait for in-flight requests to be answered and their responses flushed.
+	 * Requests still pending by then are cancelled. Default is 30000.
+	 */
+	timeout?: number
+
+	/**
+	 * Notification sent on the standalone SSE stream before it ends, or false to send none.
+	 * Default is a `notifications/message` log message announcing the shutdown.
+	 */
+	notification?: JSONRPCNotification | false
+}
+
+/**
+ * Default time `drain()` waits for in-flight requests
+ */
+const DEFAULT_DRAIN_TIMEOUT = 30 * 1000 // 30 seconds
+
+/**
+ * Interval at which `drain()` checks whether in-flight work is done
+ */
+const DRAIN_POLL_INTERVAL = 50
+
+/**
+ * Notification sent by default on the standalone SSE stream when draining
+ */
+const DEFAULT_DRAIN_NOTIFICATION: JSONRPCNotification = {
+	jsonrpc: "2.0",
+	method: "notifications/message",
+	params: { level: "notice", data: "Server is shutting down" },
+}
+
+/**
+ * Default maximum number of bytes queued per SSE stream
+ */
+const DEFAULT_SSE_HIGH_WATER_MARK = 1024 * 1024 // 1MB in bytes
+
+/**
+ * Events written to an SSE stream but not read by the client yet
+ */
+interface SSEQueue {
+	chunks: { bytes: Uint8Array; message?: JSONRPCMessage | JSONRPCErrorResponse }[]
+	size: number
+	/**
+	 * Whether the client is waiting for data, in which case the next chunk is handed over right away
+	 */
+	pulling: boolean
+	/**
+	 * Whether the stream closes once the queue is flushed
+	 */
+	closing: boolean
+	drainWaiters: (() => void)[]
+}
+
+/**
+ * Checks a header value against an allow list
+ */
+export function isAllowed(value: string, allowList: AllowList, request: Request): boolean {
+	if (typeof allowList === "function") {
+		return allowList(value, request)
+	}
+	return allowList.some((pattern) => {
+		if (!pattern.includes("*")) {
+			return pattern.toLowerCase() === value.toLowerCase()
+		}
+		const source = pattern
+			.split("*")
+			.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*")
+		return new RegExp(`^${source}$`, "i").test(value)
+	})
+}
+
+/**
+ * Information about a validated access token, provided to request handlers
+ */
+export type { AuthInfo }
+
+/**
+ * Builds the error reported for a message that is valid JSON but not a valid JSON-RPC message
+ */
+function createInvalidMessageError(rawMessage: unknown, issues: unknown): JSONRPCInvalidRequestError {
+	// Echo the ID back when the message has a usable one, so the client can match the error
+	const rawId = (rawMessage as { id?: unknown } | null)?.id
+	const id = typeof rawId === "string" || typeof rawId === "number" ? rawId : null
+	return new JSONRPCInvalidRequestError("Invalid Request", { id, data: issues })
+}
+
+/**
+ * HTTP request that carried a message
+ */
+export interface HTTPRequestInfo {
+	/**
+	 * Headers of the request, with lowercase names
+	 */
+	headers: Record<string, string>
+	url: string
+	method: string
+}
+
+/**
+ * Context given by the platform along with a request
+ */
+export interface PlatformContext {
+	/**
+	 * Keeps the isolate alive until the promise settles, even once the response was returned,
+	 * like `ExecutionContext.waitUntil` on Cloudflare Workers
+	 */
+	waitUntil?: (promise: Promise<unknown>) => void
+}
+
+/**
+ * Extra information passed to `onmessage` along with each message
+ */
+export interface MessageExtraInfo {
+	/**
+	 * Information about the validated access token, if the request was authenticated
+	 */
+	authInfo?: AuthInfo
+
+	/**
+	 * HTTP request that carried the message
+	 */
+	requestInfo?: HTTPRequestInfo
+
+	/**
+	 * W3C trace context of the HTTP request that carried the message, if it had a valid `traceparent` header
+	 */
+	traceContext?: TraceContext
+
+	/**
+	 * Only set for requests. Aborted when the client disconnects before the request was answered,
+	 * or when the transport is closed.
+	 */
+	signal?: AbortSignal
+}
+
+/**
+ * Interface for resumability support via event storage
+ */
+export interface EventStore {
+	/**
+	 * Stores an event for later retrieval
+	 * @param streamId ID of the stream the event belongs to
+	 * @param message The JSON-RPC message to store
+	 * @returns The generated event ID for the stored event
+	 */
+	storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId>
+
+	/**
+	 * Sends the events stored after an event, on the stream that event belongs to.
+	 * Throws a JSONRPCTransportError, such as JSONRPCBadRequestError, to reject the event ID with that error.
+	 * @returns The ID of the stream the events belong to
+	 */
+	replayEventsAfter(
+		lastEventId: EventId,
+		{
+			send,
+		}: {
+			send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+		}
+	): Promise<StreamId>
+}
+
+/**
+ * Configuration options for EdgeStreamableHTTPTransport
+ */
+export interface EdgeStreamableHTTPTransportOptions {
+	/**
+	 * Function that generates a session ID for the transport.
+	 * The session ID SHOULD be globally unique and cryptographically secure (e.g., a securely generated UUID, a JWT, or a cryptographic hash)
+	 *
+	 * Return undefined to disable session management.
+	 */
+	sessionIdGenerator: (() => string) | undefined
+
+	/**
+	 * A callback for session initialization events
+	 * This is called when the server initializes a new session.
+	 * Useful in cases when you need to register multiple mcp sessions
+	 * and need to keep track of them.
+	 * @param sessionId The generated session ID
+	 */
+	onsessioninitialized?: (sessionId: string) => void
+
+	/**
+	 * A callback for session close events
+	 * This is called once when an initialized session ends, either because the client deleted it,
+	 * it timed out, or the transport was closed. Useful to clean up any external state tied to the session.
+	 * @param sessionId The ID of the closed session
+	 * @param reason Why the session was closed
+	 */
+	onsessionclosed?: (sessionId: string, reason: SessionCloseReason) => void
+
+	/**
+	 * Time in milliseconds after which a session without any incoming request or outgoing message is closed.
+	 * Sessions with requests still in flight are never considered idle.
+	 * Disabled by default.
+	 */
+	sessionIdleTimeout?: number
+
+	/**
+	 * Maximum lifetime of a session in milliseconds, counted from its initialization.
+	 * Disabled by default.
+	 */
+	sessionMaxLifetime?: number
+
+	/**
+	 * If true, the server will return JSON responses instead of starting an SSE stream.
+	 * This can be useful for simple request/response scenarios without streaming.
+	 * Default is false (SSE streams are preferred).
+	 * Shorthand for a `responseMode` of "json", which takes precedence when set.
+	 */
+	enableJsonResponse?: boolean
+
+	/**
+	 * How the answers of POST requests are delivered, or a callback choosing it from the method of each request,
+	 * e.g. "json" for `tools/list` and "hybrid" for `tools/call`.
+	 * A batch is streamed as soon as one of its requests needs it: "sse" wins over "hybrid", which wins over "json".
+	 * Default is "sse", or "json" when `enableJsonResponse` is set.
+	 */
+	responseMode?: ResponseMode | ((method: string, request: Request) => ResponseMode)
+
+	/**
+	 * Time in milliseconds a POST request in hybrid response mode waits for its answers
+	 * before upgrading to an SSE stream. Default is 1000.
+	 */
+	hybridUpgradeDelay?: number
+
+	/**
+	 * Time in milliseconds to wait for the answers of a POST request in JSON response mode.
+	 * Requests still unanswered by then are cancelled and answered with a JSON-RPC timeout error,
+	 * while the ones already answered keep their response. Disabled by default.
+	 */
+	jsonResponseTimeout?: number
+
+	/**
+	 * Receives structured events about requests, sessions, streams and messages handled by the transport.
+	 * See `createOpenTelemetryHandler` to turn them into OpenTelemetry spans.
+	 */
+	ontelemetry?: (event: TransportTelemetryEvent) => void
+
+	/**
+	 * Ordered chain of middleware intercepting the messages exchanged with the client.
+	 * Inbound messages go through every `inbound` middleware before reaching `onmessage`,
+	 * and outbound messages through every `outbound` middleware when passed to `send()`.
+	 */
+	middleware?: MessageMiddleware[]
+
+	/**
+	 * If true, error responses include details about the failure in their `data` field,
+	 * like parser messages and exceptions thrown while handling messages.
+	 * Keep it disabled in production, as those details may leak implementation internals.
+	 */
+	debug?: boolean
+
+	/**
+	 * If true, requests still pending when the client disconnects from their response stream are cancelled:
+	 * their `signal` is aborted and a `notifications/cancelled` message is passed to `onmessage` for each of them.
+	 * Default is true without an event store, and false with one, as clients can then resume the stream.
+	 */
+	cancelOnDisconnect?: boolean
+
+	/**
+	 * Hosts allowed in the `Host` header of incoming requests, to protect against DNS rebinding attacks.
+	 * Values include the port when it is not the default one, e.g. `localhost:3000`.
+	 * When unset, any host is accepted.
+	 */
+	allowedHosts?: AllowList
+
+	/**
+	 * Origins allowed in the `Origin` header of incoming requests, to protect against DNS rebinding attacks.
+	 * Requests without an `Origin` header, like the ones from non-browser clients, are always accepted.
+	 * When unset, any origin is accepted.
+	 */
+	allowedOrigins?: AllowList
+
+	/**
+	 * Cross-origin resource sharing settings, for MCP clients running in browsers.
+	 * When set, OPTIONS preflight requests are answered and every response carries the CORS headers,
+	 * exposing `mcp-session-id` to JavaScript. Disabled by default.
+	 */
+	cors?: CorsOptions
+
+	/**
+	 * Verifies the access token of the `Authorization: Bearer` header of every request.
+	 * When set, requests without a valid token are rejected with 401, and the returned AuthInfo
+	 * is passed to `onmessage`. Ignored for requests whose AuthInfo is given to `handleRequest`.
+	 */
+	verifyAccessToken?: AccessTokenVerifier
+
+	/**
+	 * Scopes the access token must have been granted, requests missing any of them are rejected with 403.
+	 * Only used along with `verifyAccessToken`.
+	 */
+	requiredScopes?: string[]
+
+	/**
+	 * URL of the OAuth protected resource metadata document, advertised to unauthenticated clients
+	 * in the `WWW-Authenticate` header. See `getProtectedResourceMetadataUrl`.
+	 */
+	resourceMetadataUrl?: string
+
+	/**
+	 * Maximum size in bytes of a POST request body, after decompression.
+	 * Larger bodies are rejected with 413. Default is 4MB.
+	 */
+	maxBodySize?: number
+
+	/**
+	 * Maximum number of requests of the session being processed at the same time.
+	 * POST requests carrying more are rejected with 429. Unlimited by default.
+	 */
+	maxInFlightRequests?: number
+
+	/**
+	 * Maximum number of SSE streams of the session open at the same time, including the standalone GET stream.
+	 * Requests that would open another one are rejected with 429. Unlimited by default.
+	 */
+	maxOpenStreams?: number
+
+	/**
+	 * Maximum number of messages in a JSON-RPC batch. Larger batches are rejected with 429.
+	 * Unlimited by default.
+	 */
+	maxBatchSize?: number
+
+	/**
+	 * Token bucket limiting the rate of HTTP requests of the session.
+	 * Requests finding the bucket empty are rejected with 429. Disabled by default.
+	 */
+	rateLimit?: RateLimitOptions
+
+	/**
+	 * Protocol versions accepted in the `MCP-Protocol-Version` header of requests following initialization.
+	 * Requests announcing any other version are rejected with 400.
+	 * Defaults to the versions supported by the MCP SDK.
+	 */
+	supportedProtocolVersions?: string[]
+
+	/**
+	 * Interval in milliseconds at which an SSE comment is written to every open stream.
+	 * Keeps proxies and load balancers from dropping long-running streams.
+	 * Disabled by default.
+	 */
+	sseHeartbeatInterval?: number
+
+	/**
+	 * Reconnection delay in milliseconds advertised to clients through the SSE `retry` field
+	 * at the start of every stream. Omitted by default, leaving the delay up to the client.
+	 */
+	sseRetryInterval?: number
+
+	/**
+	 * Maximum number of bytes queued per SSE stream for a client that does not read them fast enough.
+	 * Once reached, `sseOverflowPolicy` applies. Default is 1MB.
+	 */
+	sseHighWaterMark?: number
+
+	/**
+	 * What to do when the queue of an SSE stream reaches `sseHighWaterMark`.
+	 * Default is "wait", making `send()` wait for the client to catch up.
+	 */
+	sseOverflowPolicy?: SSEOverflowPolicy
+
+	/**
+	 * Event store for resumability support
+	 * If provided, resumability will be enabled, allowing clients to reconnect and resume messages
+	 */
+	eventStore?: EventStore
+
+	/**
+	 * Relays messages between the instances serving the session, for platforms that route its requests
+	 * to different isolates. Messages for an SSE stream held by another instance are published to the broker
+	 * instead of being discarded, and the streams held by this instance receive the messages published for them.
+	 * The session manager and `createMcpFetchHandler` take over the sessions other instances initialized,
+	 * see `attachSession`. Ignored in stateless mode.
+	 */
+	broker?: MessageBroker
+}
+
+/**
+ * Edge-compatible server transport for Streamable HTTP: this implements the MCP Streamable HTTP transport specification.
+ * It supports both SSE streaming and direct HTTP responses using Web Fetch API.
+ *
+ * Usage example with Hono:
+ *
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { EdgeStreamableHTTPTransport } from 'streameable-http-edge-transport';
+ *
+ * const app = new Hono();
+ * const transport = new EdgeStreamableHTTPTransport({
+ *   sessionIdGenerator: () => crypto.randomUUID(),
+ * });
+ * await createMcpServer().connect(transport);
+ *
+ * app.all('/mcp', async (c) => {
+ *   // The body is read from the request stream when not given
+ *   return await transport.handleRequest(c.req.raw);
+ * });
+ * ```
+ *
+ * A single transport serves a single session. See `createMcpFetchHandler` and the framework adapters
+ * to serve any number of sessions.
+ *
+ * In stateful mode:
+ * - Session ID is generated and included in response headers
+ * - Session ID is always included in initialization responses
+ * - Requests with invalid session IDs are rejected with 404 Not Found
+ * - Non-initialization requests without a session ID are rejected with 400 Bad Request
+ * - State is maintained in-memory (connections, message history)
+ *
+ * In stateless mode:
+ * - No Session ID is included in any responses
+ * - No session validation is performed
+ */
+export class EdgeStreamableHTTPTransport implements Transport {
+	// when sessionId is not set (undefined), it means the transport is in stateless mode
+	private sessionIdGenerator: (() => string) | undefined
+	private _started = false
+	protected _streamMapping: Map<string, ReadableStreamDefaultController> = new Map()
+	private _requestToStreamMapping: Map<RequestId, string> = new Map()
+	// Responses dropped by outbound middleware are kept as null, their requests are answered all the same
+	private _requestResponseMap: Map<RequestId, JSONRPCMessage | null> = new Map()
+	protected _initialized = false
+	private _responseMode: ResponseMode | ((method: string, request: Request) => ResponseMode)
+	private _hybridUpgradeDelay: number
+	protected _standaloneSseStreamId = "_GET_stream"
+	private _eventStore?: EventStore
+	private _broker?: MessageBroker
+	private _brokerSubscriptions: Map<ReadableStreamDefaultController, Promise<() => void>> = new Map()
+	protected _onsessioninitialized?: (sessionId: string) => void
+	private _onsessionclosed?: (sessionId: string, reason: SessionCloseReason) => void
+	private _pendingResponses: Map<
+		string,
+		{
+			resolve: (response: Response) => void
+			timeout?: ReturnType<typeof setTimeout>
+			/**
+			 * Whether the response upgrades to an SSE stream when needed, the timeout being the upgrade deadline
+			 */
+			hybrid: boolean
+			isBatch: boolean
+			invalidMessageErrors: JSONRPCErrorResponse[]
+		}
+	> = new Map()
+	private _sessionIdleTimeout?: number
+	private _sessionMaxLifetime?: number
+	private _idleTimer?: ReturnType<typeof setTimeout>
+	private _lifetimeTimer?: ReturnType<typeof setTimeout>
+	private _closed = false
+	protected _draining = false
+	private _sseHeartbeatInterval?: number
+	private _sseRetryInterval?: number
+	private _heartbeatTimers: Map<ReadableStreamDefaultController, ReturnType<typeof setInterval>> = new Map()
+	private _sseHighWaterMark: number
+	private _sseOverflowPolicy: SSEOverflowPolicy
+	private _sseQueues: Map<ReadableStreamDefaultController, SSEQueue> = new Map()
+	private _droppedEventCount = 0
+	private _allowedHosts?: AllowList
+	private _allowedOrigins?: AllowList
+	private _cors?: CorsOptions
+	private _verifyAccessToken?: AccessTokenVerifier
+	private _requiredScopes?: string[]
+	private _resourceMetadataUrl?: string
+	private _supportedProtocolVersions: string[]
+	protected _maxBodySize: number
+	private _maxInFlightRequests?: number
+	private _maxOpenStreams?: number
+	private _maxBatchSize?: number
+	private _rateLimit?: RateLimitOptions
+	private _rateLimitStore?: RateLimitStore
+	private _cancelOnDisconnect: boolean
+	private _jsonResponseTimeout?: number
+	protected _debug: boolean
+	private _ontelemetry?: (event: TransportTelemetryEvent) => void
+	private _middleware: MessageMiddleware[]
+	// Inbound middleware may be async, messages still reach onmessage in the order they were received
+	private _inboundQueue: Promise<void> = Promise.resolve()
+	// Settle the promises handed to `waitUntil` for the requests of each POST stream
+	private _keepAlives: Map<StreamId, () => void> = new Map()
+	protected _requestAbortControllers: Map<RequestId, AbortController> = new Map()
+	private _initializeRequestId?: RequestId
+
+	sessionId?: string | undefined
+	/**
+	 * The protocol version negotiated during initialization, once the server answered the initialize request
+	 */
+	protocolVersion?: string | undefined
+
+	/**
+	 * Number of notifications dropped so far by the "drop-oldest" overflow policy
+	 */
+	get droppedEventCount(): number {
+		return this._droppedEventCount
+	}
+
+	onclose?: () => void
+	onerror?: (error: Error) => void
+	onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void
+
+	constructor(options: EdgeStreamableHTTPTransportOptions) {
+		this.sessionIdGenerator = options.sessionIdGenerator
+		this._responseMode = options.responseMode ?? (options.enableJsonResponse ? "json" : "sse")
+		this._hybridUpgradeDelay = options.hybridUpgradeDelay ?? DEFAULT_HYBRID_UPGRADE_DELAY
+		this._eventStore = options.eventStore
+		this._broker = options.broker
+		this._onsessioninitialized = options.onsessioninitialized
+		this._onsessionclosed = options.onsessionclosed
+		this._sessionIdleTimeout = options.sessionIdleTimeout
+		this._sessionMaxLifetime = options.sessionMaxLifetime
+		this._sseHeartbeatInterval = options.sseHeartbeatInterval
+		this._sseRetryInterval = options.sseRetryInterval
+		this._sseHighWaterMark = options.sseHighWaterMark ?? DEFAULT_SSE_HIGH_WATER_MARK
+		this._sseOverflowPolicy = options.sseOverflowPolicy ?? "wait"
+		this._allowedHosts = options.allowedHosts
+		this._allowedOrigins = options.allowedOrigins
+		this._cors = options.cors
+		this._verifyAccessToken = options.verifyAccessToken
+		this._requiredScopes = options.requiredScopes
+		this._resourceMetadataUrl = options.resourceMetadataUrl
+		this._supportedProtocolVersions = options.supportedProtocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS
+		this._maxBodySize = options.maxBodySize ?? MAXIMUM_MESSAGE_SIZE
+		this._maxInFlightRequests = options.maxInFlightRequests
+		this._maxOpenStreams = options.maxOpenStreams
+		this._maxBatchSize = options.maxBatchSize
+		this._rateLimit = options.rateLimit
+		this._rateLimitStore = options.rateLimit && (options.rateLimit.store ?? new InMemoryRateLimitStore())
+		this._cancelOnDisconnect = options.cancelOnDisconnect ?? !options.eventStore
+		this._jsonResponseTimeout = options.jsonResponseTimeout
+		this._debug = options.debug ?? false
+		this._ontelemetry = options.ontelemetry
+		this._middleware = options.middleware ?? []
+	}
+
+	/**
+	 * Starts the transport. This is required by the Transport interface but is a no-op
+	 * for the Streamable HTTP transport as connections are managed per-request.
+	 */
+	async start(): Promise<void> {
+		if (this._started) {
+			throw new Error("Transport already started")
+		}
+		this._started = true
+	}
+
+	/**
+	 * Attaches the transport to a session initialized by another instance, so it can serve the requests of the session.
+	 * Meant for deployments with a `broker`, where any instance may receive the requests of a session:
+	 * messages for the streams held elsewhere are relayed through the broker.
+	 * The connected server never sees the initialize request, only the protocol version negotiated by it.
+	 */
+	attachSession(sessionId: string, protocolVersion: string): void {
+		if (this.sessionIdGenerator === undefined) {
+			throw new Error("Stateless transports have no session to attach to")
+		}
+		if (this._initialized) {
+			throw new Error("Transport already attached to a session")
+		}
+
+		this.sessionId = sessionId
+		this.protocolVersion = protocolVersion
+		this._initialized = true
+		this.startSessionTimers()
+	}
+
+	/**
+	 * Handles an incoming HTTP request using Web Fetch API
+	 *
+	 * When no body is given, the body of POST requests is read from the request stream,
+	 * enforcing `maxBodySize` while reading and decoding `gzip` and `deflate` content encodings.
+	 *
+	 * On runtimes freezing isolates once the response is returned, give the platform context:
+	 * its `waitUntil` keeps the isolate alive until the requests of a POST are answered.
+	 */
+	async handleRequest(request: Request, authInfo?: AuthInfo, context?: PlatformContext): Promise<Response>
+	async handleRequest(request: Request, body: string, authInfo?: AuthInfo, context?: PlatformContext): Promise<Response>
+	async handleRequest(
+		request: Request,
+		bodyOrAuthInfo?: string | AuthInfo,
+		authInfoOrContext?: AuthInfo | PlatformContext,
+		context?: PlatformContext
+	): Promise<Response> {
+		const body = typeof bodyOrAuthInfo === "string" ? bodyOrAuthInfo : undefined
+		const givenAuthInfo =
+			typeof bodyOrAuthInfo === "string" ? (authInfoOrContext as AuthInfo | undefined) : bodyOrAuthInfo
+		const platformContext =
+			typeof bodyOrAuthInfo === "string" ? context : (authInfoOrContext as PlatformContext | undefined)
+
+		const startTime = Date.now()
+		const response = await this.routeRequest(request, body, givenAuthInfo, platformContext)
+		if (this._ontelemetry) {
+			this.emitTelemetry({
+				type: "request",
+				method: request.method,
+				status: response.status,
+				durationMs: Date.now() - startTime,
+				sessionId: this.sessionId,
+				traceContext: getTraceContext(request),
+			})
+		}
+		return this._cors ? applyCorsHeaders(request, response, this._cors) : response
+	}
+
+	/**
+	 * Validates an incoming HTTP request and hands it over to the handler of its method
+	 */
+	private async routeRequest(
+		request: Request,
+		body: string | undefined,
+		givenAuthInfo?: AuthInfo,
+		context?: PlatformContext
+	): Promise<Response> {
+		const method = request.method
+
+		const requestAuthInfo = await this.authorizeRequest(request, givenAuthInfo)
+		if (requestAuthInfo instanceof Response) {
+			return requestAuthInfo
+		}
+
+		if (method === "OPTIONS") {
+			return createCorsPreflightResponse(request, this._cors)
+		}
+
+		const rateLimitResponse = await this.checkRateLimit(request)
+		if (rateLimitResponse) {
+			return rateLimitResponse
+		}
+
+		// Any request addressed to the current session counts as activity
+		if (this.sessionId !== undefined && request.headers.get("mcp-session-id") === this.sessionId) {
+			this.resetIdleTimer()
+		}
+
+		if (method === "POST") {
+			return await this.handlePostRequest(request, body, requestAuthInfo, context)
+		}
+		if (method === "GET") {
+			return await this.handleGetRequest(request)
+		}
+		if (method === "DELETE") {
+			return await this.handleDeleteRequest(request)
+		}
+		return this.handleUnsupportedRequest()
+	}
+
+	/**
+	 * Validates the Host and Origin headers of a request and authenticates it, without handling it.
+	 * Lets callers refuse a request before doing any work on its behalf, such as creating a server.
+	 * Returns the AuthInfo of the request, if any, or a Response if the request is rejected
+	 */
+	async authorizeRequest(request: Request, givenAuthInfo?: AuthInfo): Promise<AuthInfo | undefined | Response> {
+		const headersValidationResponse = this.validateRequestHeaders(request)
+		if (headersValidationResponse) {
+			return headersValidationResponse
+		}
+
+		// Browsers send preflight requests without credentials, they must be answered before authentication
+		if (request.method === "OPTIONS" || givenAuthInfo !== undefined || !this._verifyAccessToken) {
+			return givenAuthInfo
+		}
+		return await this.authenticateRequest(request, this._verifyAccessToken)
+	}
+
+	/**
+	 * Takes a token from the rate limit bucket of the request
+	 * Returns a Response if the bucket is empty, null if the request may proceed
+	 */
+	private async checkRateLimit(request: Request): Promise<Response | null> {
+		if (!this._rateLimit || !this._rateLimitStore) {
+			return null
+		}
+
+		const key = this._rateLimit.key ? this._rateLimit.key(request, this.sessionId) : this.sessionId
+		if (key === undefined) {
+			return null
+		}
+
+		try {
+			const retryAfterMs = await this._rateLimitStore.take(key, this._rateLimit)
+			if (retryAfterMs <= 0) {
+				return null
+			}
+			return new JSONRPCTooManyRequestsError(
+				"Too Many Requests: Rate limit exceeded",
+				Math.max(1, Math.ceil(retryAfterMs / 1000))
+			).toResponse(this._debug)
+		} catch (error) {
+			// A failing store must not take the server down, let the request through
+			this.onerror?.(error as Error)
+			return null
+		}
+	}
+
+	/**
+	 * Reports a telemetry event, making sure a faulty handler never breaks the transport
+	 */
+	protected emitTelemetry(event: TransportTelemetryEvent): void {
+		if (!this._ontelemetry) {
+			return
+		}
+		try {
+			this._ontelemetry(event)
+		} catch (error) {
+			this.onerror?.(error as Error)
+		}
+	}
+
+	/**
+	 * Validates the Host and Origin headers against the configured allow lists to prevent DNS rebinding attacks
+	 * Returns a Response if the request is forbidden, null if valid
+	 */
+	private validateRequestHeaders(request: Request): Response | null {
+		if (this._allowedHosts) {
+			// Some runtimes do not expose the Host header, the request URL carries the same value
+			const host = request.headers.get("host") ?? new URL(request.url).host
+			if (!isAllowed(host, this._allowedHosts, request)) {
+				return new JSONRPCForbiddenError(`Forbidden: Invalid Host header: ${host}`).toResponse()
+			}
+		}
+
+		const origin = request.headers.get("origin")
+		if (this._allowedOrigins && origin !== null && !isAllowed(origin, this._allowedOrigins, request)) {
+			return new JSONRPCForbiddenError(`Forbidden: Invalid Origin header: ${origin}`).toResponse()
+		}
+
+		return null
+	}
+
+	/**
+	 * Authenticates the bearer token of a request
+	 * Returns the AuthInfo of the token, or a Response if the request is not authorized
+	 */
+	private async authenticateRequest(
+		request: Request,
+		verifyAccessToken: AccessTokenVerifier
+	): Promise<AuthInfo | Response> {
+		try {
+			return await authenticateBearerRequest(request, {
+				verifyAccessToken,
+				requiredScopes: this._requiredScopes,
+				resourceMetadataUrl: this._resourceMetadataUrl,
+			})
+		} catch (error) {
+			this.onerror?.(error as Error)
+			return new JSONRPCInternalError("Internal error: Failed to verify access token").toResponse()
+		}
+	}
+
+	/**
+	 * Handles GET requests for SSE stream
+	 */
+	protected async handleGetRequest(request: Request): Promise<Response> {
+		// The client MUST include an Accept header, listing text/event-stream as a supported content type.
+		const acceptHeader = request.headers.get("accept")
+		if (!acceptHeader?.includes("text/event-stream")) {
+			return new JSONRPCNotAcceptableError("Not Acceptable: Client must accept text/event-stream").toResponse()
+		}
+
+		// Validate session
+		const validationResponse = this.validateSession(request)
+		if (validationResponse) {
+			return validationResponse
+		}
+
+		const protocolVersionResponse = this.validateProtocolVersion(request)
+		if (protocolVersionResponse) {
+			return protocolVersionResponse
+		}
+
+		if (this._draining) {
+			return new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1).toResponse(
+				this._debug
+			)
+		}
+
+		if (this._maxOpenStreams !== undefined && this._streamMapping.size >= this._maxOpenStreams) {
+			return new JSONRPCTooManyRequestsError("Too Many Requests: Too many open streams", 1).toResponse(this._debug)
+		}
+
+		// Handle resumability: check for Last-Event-ID header
+		if (this._eventStore) {
+			const lastEventId = request.headers.get("last-event-id")
+			if (lastEventId) {
+				return await this.replayEvents(lastEventId)
+			}
+		}
+
+		// Check if there's already an active standalone SSE stream for this session
+		if (this._streamMapping.get(this._standaloneSseStreamId) !== undefined) {
+			// Only one GET SSE stream is allowed per session
+			return new JSONRPCConflictError("Conflict: Only one SSE stream is allowed per session").toResponse()
+		}
+
+		// Create SSE stream
+		const { readable, controller } = this.createSSEStream()
+
+		// Store the controller for this stream
+		this._streamMapping.set(this._standaloneSseStreamId, controller)
+		this.subscribeToBroker(this._standaloneSseStreamId, controller)
+		this.emitTelemetry({ type: "stream_opened", streamId: this._standaloneSseStreamId, sessionId: this.sessionId })
+
+		const headers: Record<string, string> = {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+		}
+
+		// After initialization, always include the session ID if we have one
+		if (this.sessionId !== undefined) {
+			headers["mcp-session-id"] = this.sessionId
+		}
+
+		return new Response(readable, { headers })
+	}
+
+	/**
+	 * Creates a Server-Sent Events stream using ReadableStream
+	 */
+	protected createSSEStream(): {
+		readable: ReadableStream
+		controller: ReadableStreamDefaultController
+	} {
+		let controller: ReadableStreamDefaultController
+
+		const self = this
+		// Events are queued on our side and only handed over when the client reads, so the queue can be bounded
+		const readable = new ReadableStream(
+			{
+				start(ctrl) {
+					controller = ctrl
+					self._sseQueues.set(ctrl, { chunks: [], size: 0, pulling: false, closing: false, drainWaiters: [] })
+					if (self._sseRetryInterval !== undefined) {
+						self.enqueueSSEChunk(ctrl, textEncoder.encode(`retry: ${self._sseRetryInterval}\n\n`))
+					}
+					if (self._sseHeartbeatInterval !== undefined) {
+						self._heartbeatTimers.set(
+							ctrl,
+							setInterval(() => self.writeSSEHeartbeat(ctrl), self._sseHeartbeatInterval)
+						)
+					}
+				},
+				pull(ctrl) {
+					self.flushSSEQueue(ctrl, true)
+				},
+				cancel() {
+					self.disconnectSSEStream(controller)
+				},
+			},
+			{ highWaterMark: 0 }
+		)
+
+		// biome-ignore lint/style/noNonNullAssertion: <explanation>
+		return { readable, controller: controller! }
+	}
+
+	/**
+	 * Forgets a stream the client is gone from, and cancels the requests still pending on it
+	 */
+	private disconnectSSEStream(controller: ReadableStreamDefaultController): void {
+		this.stopHeartbeat(controller)
+		this.unsubscribeFromBroker(controller)
+		this.discardSSEQueue(controller)
+
+		// Only forget the stream that was cancelled; a resumed stream may already have replaced it
+		for (const [streamId, mappedController] of this._streamMapping) {
+			if (mappedController === controller) {
+				this._streamMapping.delete(streamId)
+				this.emitTelemetry({ type: "stream_closed", streamId, sessionId: this.sessionId })
+				this.handleClientDisconnect(streamId)
+			}
+		}
+	}
+
+	/**
+	 * Cancels the requests still pending on a response stream the client disconnected from
+	 */
+	protected handleClientDisconnect(streamId: StreamId): void {
+		if (!this._cancelOnDisconnect || streamId === this._standaloneSseStreamId) {
+			return
+		}
+
+		const pendingRequestIds = Array.from(this._requestToStreamMapping.entries())
+			.filter(([id, sid]) => sid === streamId && !this._requestResponseMap.has(id))
+			.map(([id]) => id)
+
+		// Forget everything about the stream, no response can be delivered anymore
+		for (const [id, sid] of this._requestToStreamMapping) {
+			if (sid === streamId) {
+				this._requestToStreamMapping.delete(id)
+				this._requestResponseMap.delete(id)
+			}
+		}
+		const controller = this._streamMapping.get(streamId)
+		if (controller) {
+			this._streamMapping.delete(streamId)
+			this.closeSSEStream(controller, streamId)
+		}
+		// Nobody is listening anymore, but the HTTP handler must still settle
+		this.resolvePendingResponse(streamId, new Response(null, { status: 499 }))
+
+		this.cancelRequests(pendingRequestIds, "Client disconnected")
+		this.releaseKeepAlive(streamId)
+	}
+
+	/**
+	 * Answers the requests of a JSON response mode POST that are still pending once its deadline is reached
+	 */
+	private handleJsonResponseTimeout(streamId: StreamId): void {
+		const relatedIds = Array.from(this._requestToStreamMapping.entries())
+			.filter(([_, sid]) => sid === streamId)
+			.map(([id]) => id)
+		const unansweredIds = relatedIds.filter((id) => !this._requestResponseMap.has(id))
+
+		// Keep the responses that are already known, and time out the others
+		const responses = relatedIds
+			.filter((id) => this._requestResponseMap.get(id) !== null)
+			.map(
+				(id): JSONRPCMessage =>
+					this._requestResponseMap.get(id) ??
+					({
+						jsonrpc: "2.0",
+						id,
+						error: {
+							code: ErrorCode.RequestTimeout,
+							message: "Request timed out",
+						},
+					} satisfies JSONRPCError)
+			)
+		this.resolvePendingResponse(streamId, this.createJsonResponse(streamId, responses))
+
+		for (const id of relatedIds) {
+			this._requestResponseMap.delete(id)
+			this._requestToStreamMapping.delete(id)
+		}
+		for (const id of relatedIds.filter((id) => !unansweredIds.includes(id))) {
+			this._requestAbortControllers.delete(id)
+		}
+		this.cancelRequests(unansweredIds, "Request timed out")
+		this.releaseKeepAlive(streamId)
+	}
+
+	/**
+	 * Lets the isolate go once the requests of a POST stream no longer need it
+	 */
+	private releaseKeepAlive(streamId: StreamId): void {
+		this._keepAlives.get(streamId)?.()
+		this._keepAlives.delete(streamId)
+	}
+
+	/**
+	 * Keeps the isolate alive until the messages waiting for the inbound middleware reach `onmessage`
+	 */
+	protected waitForInboundQueue(context?: PlatformContext): void {
+		if (context?.waitUntil && this._middleware.length > 0) {
+			context.waitUntil(this._inboundQueue)
+		}
+	}
+
+	/**
+	 * Aborts requests the server is still working on and lets it know through a `notifications/cancelled` message
+	 */
+	private cancelRequests(requestIds: RequestId[], reason: string): void {
+		for (const requestId of requestIds) {
+			this._requestAbortControllers.get(requestId)?.abort(new Error(reason))
+			this._requestAbortControllers.delete(requestId)
+
+			// Let the server stop working on the request, as if the client had cancelled it
+			this.onmessage?.({
+				jsonrpc: "2.0",
+				method: "notifications/cancelled",
+				params: { requestId, reason },
+			})
+		}
+	}
+
+	/**
+	 * Settles the HTTP response of a JSON response mode POST, if still pending
+	 */
+	private resolvePendingResponse(streamId: StreamId, response: Response): void {
+		const pendingResponse = this._pendingResponses.get(streamId)
+		if (!pendingResponse) {
+			return
+		}
+		clearTimeout(pendingResponse.timeout)
+		this._pendingResponses.delete(streamId)
+		pendingResponse.resolve(response)
+	}
+
+	/**
+	 * Switches a hybrid response mode POST from a JSON body to an SSE stream,
+	 * writing the answers already known to it before anything else
+	 */
+	private upgradeToSSEStream(streamId: StreamId): void {
+		const pendingResponse = this._pendingResponses.get(streamId)
+		if (!pendingResponse) {
+			return
+		}
+
+		const { readable, controller } = this.createSSEStream()
+		this._streamMapping.set(streamId, controller)
+		this.emitTelemetry({ type: "stream_opened", streamId, sessionId: this.sessionId })
+
+		// Those were never stored in the event store, as they were meant for the JSON body
+		for (const invalidMessageError of pendingResponse.invalidMessageErrors) {
+			this.writeSSEEvent(controller, invalidMessageError)
+		}
+		for (const [id, sid] of this._requestToStreamMapping) {
+			const response = sid === streamId ? this._requestResponseMap.get(id) : undefined
+			if (response) {
+				this.writeSSEEvent(controller, response)
+			}
+		}
+
+		const headers: Record<string, string> = {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		}
+		if (this.sessionId !== undefined) {
+			headers["mcp-session-id"] = this.sessionId
+		}
+		this.resolvePendingResponse(streamId, new Response(readable, { headers }))
+	}
+
+	/**
+	 * Returns how the answers of the requests of a POST are delivered
+	 */
+	private getResponseMode(requests: JSONRPCRequest[], request: Request): ResponseMode {
+		const responseMode = this._responseMode
+		if (typeof responseMode !== "function") {
+			return responseMode
+		}
+
+		const modes = requests.map((message) => responseMode(message.method, request))
+		// A batch is streamed as soon as one of its requests needs it
+		return (["sse", "hybrid", "json"] as const).find((mode) => modes.includes(mode)) ?? "sse"
+	}
+
+	/**
+	 * Builds the HTTP response carrying the answers of a JSON response mode POST,
+	 * along with the errors of the invalid messages of its batch
+	 */
+	private createJsonResponse(streamId: StreamId, responses: JSONRPCMessage[]): Response {
+		const pendingResponse = this._pendingResponses.get(streamId)
+		const messages = [...(pendingResponse?.invalidMessageErrors ?? []), ...responses]
+		if (messages.length === 0) {
+			// Every response was dropped by outbound middleware
+			return new Response(null, {
+				status: 202,
+				headers: this.sessionId !== undefined ? { "mcp-session-id": this.sessionId } : undefined,
+			})
+		}
+		return this.createBatchResponse(messages, pendingResponse?.isBatch ?? responses.length > 1)
+	}
+
+	/**
+	 * Builds a JSON response out of JSON-RPC messages, as an array for batches
+	 */
+	private createBatchResponse(responses: (JSONRPCMessage | JSONRPCErrorResponse)[], isBatch: boolean): Response {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		}
+		if (this.sessionId !== undefined) {
+			headers["mcp-session-id"] = this.sessionId
+		}
+
+		return new Response(JSON.stringify(isBatch ? responses : responses[0]), {
+			status: 200,
+			headers,
+		})
+	}
+
+	/**
+	 * Dispatches a received message to `onmessage`, along with its extra information
+	 */
+	protected dispatchMessage(message: JSONRPCMessage, request: Request, requestExtra: MessageExtraInfo): void {
+		const headers: Record<string, string> = {}
+		request.headers.forEach((value, name) => {
+			headers[name] = value
+		})
+		const extra: MessageExtraInfo = {
+			...requestExtra,
+			requestInfo: { headers, url: request.url, method: request.method },
+		}
+
+		if (this._middleware.length === 0) {
+			this.deliverMessage(message, extra)
+			return
+		}
+
+		this._inboundQueue = this._inboundQueue.then(async () => {
+			let result: JSONRPCMessage | null
+			try {
+				result = await this.applyInboundMiddleware(message, request, extra)
+			} catch (error) {
+				this.handleDispatchError(message, error)
+				return
+			}
+
+			if (result === null && isJSONRPCRequest(message)) {
+				// The server never sees a dropped request, so it is answered here or its stream would never end
+				const methodNotFound: JSONRPCError = {
+					jsonrpc: "2.0",
+					id: message.id,
+					error: { code: ErrorCode.MethodNotFound, message: "Method not found" },
+				}
+				this.send(methodNotFound).catch((sendError) => this.onerror?.(sendError as Error))
+			} else if (
+				result !== null &&
+				isJSONRPCRequest(message) &&
+				(isJSONRPCResponse(result) || isJSONRPCError(result))
+			) {
+				// A middleware answered the request itself, the server never sees it
+				this.send(result).catch((sendError) => this.onerror?.(sendError as Error))
+			} else if (result !== null) {
+				this.deliverMessage(result, extra)
+			}
+		})
+	}
+
+	/**
+	 * Passes a received message through the inbound middleware chain
+	 * Returns the message to deliver, or null if it was dropped
+	 */
+	private async applyInboundMiddleware(
+		message: JSONRPCMessage,
+		request: Request,
+		extra: MessageExtraInfo
+	): Promise<JSONRPCMessage | null> {
+		let result: JSONRPCMessage | null = message
+		for (const middleware of this._middleware) {
+			if (!middleware.inbound) {
+				continue
+			}
+			result = await middleware.inbound(result, { request, authInfo: extra.authInfo, sessionId: this.sessionId })
+			// Dropped, or a request answered by the middleware: the rest of the chain has nothing to do
+			if (result === null || (isJSONRPCRequest(message) && (isJSONRPCResponse(result) || isJSONRPCError(result)))) {
+				return result
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Passes a message about to be sent through the outbound middleware chain
+	 * Returns the message to send, or null if it was dropped
+	 */
+	protected async applyOutboundMiddleware(
+		message: JSONRPCMessage,
+		relatedRequestId: RequestId | undefined
+	): Promise<JSONRPCMessage | null> {
+		let result: JSONRPCMessage | null = message
+		for (const middleware of this._middleware) {
+			if (!middleware.outbound) {
+				continue
+			}
+			result = await middleware.outbound(result, { relatedRequestId, sessionId: this.sessionId })
+			if (result === null) {
+				return null
+			}
+		}
+		return result
+	}
+
+	/**
+	 * Passes a received message to `onmessage`, with the abort signal of its request
+	 */
+	private deliverMessage(message: JSONRPCMessage, extra: MessageExtraInfo): void {
+		const signal = isJSONRPCRequest(message) ? this._requestAbortControllers.get(message.id)?.signal : undefined
+		try {
+			this.onmessage?.(message, { ...extra, signal })
+		} catch (error) {
+			this.handleDispatchError(message, error)
+		}
+	}
+
+	/**
+	 * Reports a failure to handle a received message, answering it with an internal error if it is a request
+	 */
+	private handleDispatchError(message: JSONRPCMessage, error: unknown): void {
+		this.onerror?.(error as Error)
+
+		// Answer the request ourselves, the server will not
+		if (isJSONRPCRequest(message)) {
+			const internalError = new JSONRPCInternalError("Internal error", {
+				id: message.id,
+				data: String(error),
+				cause: error,
+			})
+			this.send(internalError.toJSONRPC(this._debug) as JSONRPCError).catch((sendError) =>
+				this.onerror?.(sendError as Error)
+			)
+		}
+	}
+
+	/**
+	 * Replays events that would have been sent after the specified event ID
+	 * Only used when resumability is enabled
+	 */
+	private async replayEvents(lastEventId: string): Promise<Response> {
+		if (!this._eventStore) {
+			return new Response("", { status: 400 })
+		}
+
+		const { readable, controller } = this.createSSEStream()
+		try {
+			const headers: Record<string, string> = {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache, no-transform",
+				Connection: "keep-alive",
+			}
+
+			if (this.sessionId !== undefined) {
+				headers["mcp-session-id"] = this.sessionId
+			}
+
+			let replayedCount = 0
+			let lastReplayedMessage: JSONRPCMessage | undefined
+			const eventStreamId = await this._eventStore.replayEventsAfter(lastEventId, {
+				send: async (eventId: string, message: JSONRPCMessage) => {
+					this.writeSSEEvent(controller, message, eventId)
+					replayedCount++
+					lastReplayedMessage = message
+				},
+			})
+
+			// Events are scoped to the session that stored them, never let another session resume them.
+			// The stream has not been handed out yet, so nothing written above reaches the client.
+			const streamId = this.fromEventStreamId(eventStreamId)
+			if (streamId === undefined) {
+				await readable.cancel()
+				return new JSONRPCBadRequestError("Bad Request: Last-Event-ID does not belong to this session").toResponse()
+			}
+
+			this.emitTelemetry({ type: "events_replayed", streamId, count: replayedCount, sessionId: this.sessionId })
+			this.emitTelemetry({ type: "stream_resumed", streamId, lastEventId, sessionId: this.sessionId })
+
+			// With a broker, the requests of the stream may be pending on another instance,
+			// unless the replay already ended with their answer. Nothing to replay tells nothing about them.
+			const mayBePendingElsewhere =
+				this._broker !== undefined &&
+				(lastReplayedMessage === undefined ||
+					(!isJSONRPCResponse(lastReplayedMessage) && !isJSONRPCError(lastReplayedMessage)))
+			const hasPendingRequests = Array.from(this._requestToStreamMapping.values()).includes(streamId)
+			if (streamId !== this._standaloneSseStreamId && !hasPendingRequests && !mayBePendingElsewhere) {
+				// Every request of the original POST stream was already answered, so nothing else will follow
+				this.closeSSEStream(controller, streamId)
+			} else {
+				// Pending responses and future messages of the stream are delivered on the resumed connection
+				this._streamMapping.set(streamId, controller)
+				this.subscribeToBroker(streamId, controller)
+			}
+
+			return new Response(readable, { headers })
+		} catch (error) {
+			// Release the heartbeat and queue of the stream, it will never be handed out
+			await readable.cancel()
+			if (error instanceof JSONRPCTransportError) {
+				return error.toResponse(this._debug)
+			}
+
+			this.onerror?.(error as Error)
+			return new JSONRPCInternalError("Internal error: Failed to replay events", {
+				data: String(error),
+				cause: error,
+			}).toResponse(this._debug)
+		}
+	}
+
+	/**
+	 * Stores a message in the event store, scoped to the current session
+	 * Returns the ID of the stored event
+	 */
+	private async storeEvent(eventStore: EventStore, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+		const eventId = await eventStore.storeEvent(this.toEventStreamId(streamId), message)
+		this.emitTelemetry({ type: "event_stored", streamId, eventId, sessionId: this.sessionId })
+		return eventId
+	}
+
+	/**
+	 * Maps a transport stream ID to the stream ID used in the event store, scoped to the current session
+	 */
+	private toEventStreamId(streamId: StreamId): StreamId {
+		return this.sessionId === undefined ? streamId : `${this.sessionId}:${streamId}`
+	}
+
+	/**
+	 * Maps an event store stream ID back to a transport stream ID.
+	 * Returns undefined when the stream belongs to another session.
+	 */
+	private fromEventStreamId(eventStreamId: StreamId): StreamId | undefined {
+		if (this.sessionId === undefined) {
+			return eventStreamId
+		}
+		const sessionPrefix = `${this.sessionId}:`
+		return eventStreamId.startsWith(sessionPrefix) ? eventStreamId.slice(sessionPrefix.length) : undefined
+	}
+
+	/**
+	 * Writes an SSE comment, which clients ignore but keeps the connection from looking idle
+	 */
+	private writeSSEHeartbeat(controller: ReadableStreamDefaultController): void {
+		const queue = this._sseQueues.get(controller)
+		if (!queue) {
+			// The stream is gone without us noticing, stop pinging it
+			this.stopHeartbeat(controller)
+			return
+		}
+		// Pending events already show the connection is alive once the client reads them
+		if (queue.chunks.length === 0) {
+			this.enqueueSSEChunk(controller, textEncoder.encode(": ping\n\n"))
+		}
+	}
+
+	/**
+	 * Stops the heartbeat of a stream, if any
+	 */
+	private stopHeartbeat(controller: ReadableStreamDefaultController): void {
+		clearInterval(this._heartbeatTimers.get(controller))
+		this._heartbeatTimers.delete(controller)
+	}
+
+	/**
+	 * Subscribes a stream held by this instance to the messages other instances publish for it
+	 */
+	private subscribeToBroker(streamId: StreamId, controller: ReadableStreamDefaultController): void {
+		if (!this._broker || this.sessionId === undefined) {
+			return
+		}
+
+		const subscription = this._broker.subscribe(this.sessionId, streamId, (brokerMessage) =>
+			this.deliverBrokerMessage(streamId, brokerMessage)
+		)
+		subscription.catch((error) => this.onerror?.(error as Error))
+		this._brokerSubscriptions.set(controller, subscription)
+	}
+
+	/**
+	 * Removes the broker subscription of a stream that ended
+	 */
+	private unsubscribeFromBroker(controller: ReadableStreamDefaultController): void {
+		const subscription = this._brokerSubscriptions.get(controller)
+		if (!subscription) {
+			return
+		}
+
+		this._brokerSubscriptions.delete(controller)
+		subscription
+			.then((unsubscribe) => unsubscribe())
+			.catch(() => {
+				// The subscription failed and was already reported
+			})
+	}
+
+	/**
+	 * Writes a message published by another instance to the stream it is meant for, if it is still open here
+	 */
+	private deliverBrokerMessage(streamId: StreamId, { message, eventId, closeStream }: BrokerMessage): void {
+		const controller = this._streamMapping.get(streamId)
+		if (!controller) {
+			return
+		}
+
+		this.writeSSEEvent(controller, message, eventId)
+			.then(() => {
+				this.emitTelemetry({ type: "message_sent", streamId, message, sessionId: this.sessionId })
+				if (closeStream && this._streamMapping.get(streamId) === controller) {
+					this._streamMapping.delete(streamId)
+					this.closeSSEStream(controller, streamId)
+				}
+			})
+			.catch((error) => this.onerror?.(error as Error))
+	}
+
+	/**
+	 * Ends an SSE stream and releases its heartbeat.
+	 * Queued events are flushed to the client first, unless `discardQueued` is set.
+	 */
+	private closeSSEStream(controller: ReadableStreamDefaultController, streamId: StreamId, discardQueued = false): void {
+		this.stopHeartbeat(controller)
+		this.unsubscribeFromBroker(controller)
+		if (discardQueued) {
+			this.discardSSEQueue(controller)
+		}
+
+		const queue = this._sseQueues.get(controller)
+		if (queue && queue.chunks.length > 0) {
+			queue.closing = true
+		} else {
+			this._sseQueues.delete(controller)
+			try {
+				controller.close()
+			} catch (_error) {
+				// Controller might already be closed
+			}
+		}
+		this.emitTelemetry({ type: "stream_closed", streamId, sessionId: this.sessionId })
+	}
+
+	/**
+	 * Writes an event to the SSE stream with proper formatting.
+	 * Resolves once the event fits in the stream queue, which only takes a while with the "wait" overflow policy.
+	 */
+	protected writeSSEEvent(
+		controller: ReadableStreamDefaultController,
+		message: JSONRPCMessage | JSONRPCErrorResponse,
+		eventId?: string
+	): Promise<void> {
+		let eventData = "event: message\n"
+		// Include event ID if provided - this is important for resumability
+		if (eventId) {
+			eventData += `id: ${eventId}\n`
+		}
+		eventData += `data: ${JSON.stringify(message)}\n\n`
+
+		return this.enqueueSSEChunk(controller, textEncoder.encode(eventData), message)
+	}
+
+	/**
+	 * Queues a chunk on an SSE stream, applying the overflow policy when the queue is full
+	 */
+	protected enqueueSSEChunk(
+		controller: ReadableStreamDefaultController,
+		bytes: Uint8Array,
+		message?: JSONRPCMessage | JSONRPCErrorResponse
+	): Promise<void> {
+		const queue = this._sseQueues.get(controller)
+		if (!queue || queue.closing) {
+			// The stream is closed, the client can only get the event through resumability
+			return Promise.resolve()
+		}
+
+		if (queue.size + bytes.byteLength > this._sseHighWaterMark && queue.chunks.length > 0) {
+			if (this._sseOverflowPolicy === "disconnect") {
+				this.disconnectSSEStream(controller)
+				try {
+					controller.close()
+				} catch (_error) {
+					// Controller might already be closed
+				}
+				return Promise.resolve()
+			}
+
+			if (this._sseOverflowPolicy === "drop-oldest") {
+				this.dropQueuedNotifications(controller, queue, bytes.byteLength)
+				if (queue.size + bytes.byteLength > this._sseHighWaterMark && isJSONRPCNotification(message)) {
+					// Only responses and requests are left in the queue, and they must reach the client
+					this.reportDroppedEvent(controller, message)
+					return Promise.resolve()
+				}
+			}
+		}
+
+		queue.chunks.push({ bytes, message })
+		queue.size += bytes.byteLength
+		this.flushSSEQueue(controller)
+
+		if (this._sseOverflowPolicy !== "wait" || queue.size <= this._sseHighWaterMark) {
+			return Promise.resolve()
+		}
+		return new Promise((resolve) => queue.drainWaiters.push(resolve))
+	}
+
+	/**
+	 * Drops the oldest queued notifications until a chunk of the given size fits in the queue
+	 */
+	private dropQueuedNotifications(
+		controller: ReadableStreamDefaultController,
+		queue: SSEQueue,
+		byteLength: number
+	): void {
+		for (let i = 0; i < queue.chunks.length && queue.size + byteLength > this._sseHighWaterMark; ) {
+			const { bytes, message } = queue.chunks[i]
+			if (isJSONRPCNotification(message)) {
+				queue.chunks.splice(i, 1)
+				queue.size -= bytes.byteLength
+				this.reportDroppedEvent(controller, message)
+			} else {
+				i++
+			}
+		}
+	}
+
+	/**
+	 * Counts and reports a notification dropped by the overflow policy
+	 */
+	private reportDroppedEvent(controller: ReadableStreamDefaultController, message: JSONRPCMessage): void {
+		this._droppedEventCount++
+		for (const [streamId, mappedController] of this._streamMapping) {
+			if (mappedController === controller) {
+				this.emitTelemetry({ type: "event_dropped", streamId, message, sessionId: this.sessionId })
+			}
+		}
+	}
+
+	/**
+	 * Hands the next queued chunk over to the client if it is waiting for data,
+	 * and closes the stream once flushed if requested
+	 * @param pulling Whether the client just asked for more data
+	 */
+	private flushSSEQueue(controller: ReadableStreamDefaultController, pulling = false): void {
+		const queue = this._sseQueues.get(controller)
+		if (!queue) {
+			return
+		}
+		queue.pulling ||= pulling
+		if (!queue.pulling) {
+			return
+		}
+
+		const chunk = queue.chunks.shift()
+		if (!chunk) {
+			// Nothing to send yet, the next chunk goes straight to the client
+			return
+		}
+
+		queue.pulling = false
+		queue.size -= chunk.bytes.byteLength
+		try {
+			controller.enqueue(chunk.bytes)
+		} catch (error) {
+			this.onerror?.(error as Error)
+		}
+
+		if (queue.size <= this._sseHighWaterMark) {
+			for (const resolve of queue.drainWaiters.splice(0)) {
+				resolve()
+			}
+		}
+		if (queue.closing && queue.chunks.length === 0) {
+			this._sseQueues.delete(controller)
+			try {
+				controller.close()
+			} catch (_error) {
+				// Controller might already be closed
+			}
+		}
+	}
+
+	/**
+	 * Forgets the chunks queued on a stream, releasing the `send()` calls waiting for them to drain
+	 */
+	private discardSSEQueue(controller: ReadableStreamDefaultController): void {
+		const queue = this._sseQueues.get(controller)
+		if (!queue) {
+			return
+		}
+		this._sseQueues.delete(controller)
+		for (const resolve of queue.drainWaiters.splice(0)) {
+			resolve()
+		}
+	}
+
+	/**
+	 * Handles unsupported requests (PUT, PATCH, etc.)
+	 */
+	private handleUnsupportedRequest(): Response {
+		return new JSONRPCMethodNotAllowedError("Method not allowed.", "GET, POST, DELETE, OPTIONS").toResponse()
+	}
+
+	/**
+	 * Generates a random UUID using Web Crypto API
+	 */
+	private generateUUID(): string {
+		return crypto.randomUUID()
+	}
+
+	/**
+	 * Handles POST requests containing JSON-RPC messages
+	 */
+	protected async handlePostRequest(
+		request: Request,
+		body: string | undefined,
+		authInfo?: AuthInfo,
+		context?: PlatformContext
+	): Promise<Response> {
+		try {
+			// Validate the Accept header
+			const acceptHeader = request.headers.get("accept")
+			// The client MUST include an Accept header, listing both application/json and text/event-stream as supported content types.
+			if (!acceptHeader?.includes("application/json") || !acceptHeader.includes("text/event-stream")) {
+				return new JSONRPCNotAcceptableError(
+					"Not Acceptable: Client must accept both application/json and text/event-stream"
+				).toResponse()
+			}
+
+			const contentType = request.headers.get("content-type")
+			if (!contentType || !contentType.includes("application/json")) {
+				return new JSONRPCUnsupportedMediaTypeError(
+					"Unsupported Media Type: Content-Type must be application/json"
+				).toResponse()
+			}
+
+			// Read and parse body
+			const bodyText = body ?? (await readRequestBody(request, { maxBodySize: this._maxBodySize }))
+			if (bodyText instanceof Response) {
+				return bodyText
+			}
+			if (exceedsByteLength(bodyText, this._maxBodySize)) {
+				return new JSONRPCPayloadTooLargeError().toResponse()
+			}
+
+			let rawMessage: unknown
+			try {
+				rawMessage = JSON.parse(bodyText)
+			} catch (error) {
+				throw new JSONRPCParseError({ data: String(error), cause: error })
+			}
+
+			const messages: JSONRPCMessage[] = []
+			const invalidMessageErrors: JSONRPCErrorResponse[] = []
+			const isBatch = Array.isArray(rawMessage)
+
+			// handle batch and single messages
+			if (Array.isArray(rawMessage)) {
+				if (rawMessage.length === 0) {
+					throw new JSONRPCInvalidRequestError("Invalid Request: Empty batch")
+				}
+				if (this._maxBatchSize !== undefined && rawMessage.length > this._maxBatchSize) {
+					throw new JSONRPCTooManyRequestsError(
+						`Too Many Requests: Batches are limited to ${this._maxBatchSize} messages`,
+						1
+					)
+				}
+				// Invalid entries of a batch get their own error, the valid ones are still processed
+				for (const entry of rawMessage) {
+					const result = JSONRPCMessageSchema.safeParse(entry)
+					if (result.success) {
+						messages.push(result.data)
+					} else {
+						invalidMessageErrors.push(createInvalidMessageError(entry, result.error.issues).toJSONRPC(this._debug))
+					}
+				}
+			} else {
+				const result = JSONRPCMessageSchema.safeParse(rawMessage)
+				if (!result.success) {
+					throw createInvalidMessageError(rawMessage, result.error.issues)
+				}
+				messages.push(result.data)
+			}
+
+			// Check if this is an initialization request
+			const isInitializationRequest = messages.some(isInitializeRequest)
+			if (isInitializationRequest) {
+				// If it's a server with session management and the session ID is already set we should reject the request
+				// to avoid re-initialization.
+				if (this._initialized && this.sessionId !== undefined) {
+					return new JSONRPCInvalidRequestError("Invalid Request: Server already initialized").toResponse()
+				}
+				if (messages.length + invalidMessageErrors.length > 1) {
+					return new JSONRPCInvalidRequestError(
+						"Invalid Request: Only one initialization request is allowed"
+					).toResponse()
+				}
+			}
+
+			// Validate session and protocol version for non-initialization requests
+			if (!isInitializationRequest) {
+				const validationResponse = this.validateSession(request)
+				if (validationResponse) {
+					return validationResponse
+				}
+
+				const protocolVersionResponse = this.validateProtocolVersion(request)
+				if (protocolVersionResponse) {
+					return protocolVersionResponse
+				}
+
+				const protocolVersion = this.getRequestProtocolVersion(request)
+				if (Array.isArray(rawMessage) && protocolVersion >= BATCHING_REMOVED_PROTOCOL_VERSION) {
+					return new JSONRPCInvalidRequestError(
+						`Invalid Request: Batching is not supported in protocol version ${protocolVersion}`
+					).toResponse()
+				}
+			}
+
+			// check if it contains requests
+			const requests = messages.filter(isJSONRPCRequest)
+			const hasRequests = requests.length > 0
+			const responseMode = this.getResponseMode(requests, request)
+
+			// Requests beyond the capacity of the server are refused before an initialization takes effect,
+			// so the client can retry it
+			if (hasRequests) {
+				// Responses and notifications from the client still help in-flight requests finish, new requests do not
+				if (this._draining) {
+					throw new JSONRPCServiceUnavailableError("Service Unavailable: Server is shutting down", 1)
+				}
+				if (
+					this._maxInFlightRequests !== undefined &&
+					this._requestAbortControllers.size + requests.length > this._maxInFlightRequests
+				) {
+					throw new JSONRPCTooManyRequestsError("Too Many Requests: Too many requests in flight", 1)
+				}
+				if (
+					responseMode !== "json" &&
+					this._maxOpenStreams !== undefined &&
+					this._streamMapping.size >= this._maxOpenStreams
+				) {
+					throw new JSONRPCTooManyRequestsError("Too Many Requests: Too many open streams", 1)
+				}
+			}
+
+			if (isInitializationRequest) {
+				this.sessionId = this.sessionIdGenerator?.()
+				this._initialized = true
+				// Remember the request, the negotiated version is read from the server's answer to it
+				this._initializeRequestId = requests.find(isInitializeRequest)?.id
+				this.startSessionTimers()
+
+				// If we have a session ID and an onsessioninitialized handler, call it immediately
+				if (this.sessionId && this._onsessioninitialized) {
+					this._onsessioninitialized(this.sessionId)
+				}
+				if (this.sessionId) {
+					this.emitTelemetry({ type: "session_initialized", sessionId: this.sessionId })
+				}
+			}
+
+			const traceContext = getTraceContext(request)
+
+			if (!hasRequests) {
+				// if it only contains notifications or responses, return 202
+				// handle each message
+				for (const message of messages) {
+					this.dispatchMessage(message, request, { authInfo, traceContext })
+				}
+				this.waitForInboundQueue(context)
+				if (invalidMessageErrors.length > 0) {
+					return this.createBatchResponse(invalidMessageErrors, isBatch)
+				}
+				return new Response("", { status: 202 })
+			}
+			if (hasRequests) {
+				// The default behavior is to use SSE streaming
+				// but in some cases server will return JSON responses
+				const streamId = this.generateUUID()
+
+				for (const message of messages) {
+					if (isJSONRPCRequest(message)) {
+						this._requestAbortControllers.set(message.id, new AbortController())
+					}
+				}
+
+				// The isolate must outlive the response until every request is answered: that covers the deferred dispatch,
+				// and the events stored after the client disconnected or after the JSON response was returned
+				if (context?.waitUntil) {
+					context.waitUntil(new Promise<void>((resolve) => this._keepAlives.set(streamId, resolve)))
+				}
+
+				// Platforms abort the request signal when the client goes away
+				request.signal?.addEventListener("abort", () => this.handleClientDisconnect(streamId), { once: true })
+
+				if (responseMode === "sse") {
+					// Create SSE stream for responses
+					const { readable, controller } = this.createSSEStream()
+					this._streamMapping.set(streamId, controller)
+					this.emitTelemetry({ type: "stream_opened", streamId, sessionId: this.sessionId })
+
+					// Report the invalid messages of the batch right away
+					for (const invalidMessageError of invalidMessageErrors) {
+						this.writeSSEEvent(controller, invalidMessageError)
+					}
+
+					// Store the response mapping
+					for (const message of messages) {
+						if (isJSONRPCRequest(message)) {
+							this._requestToStreamMapping.set(message.id, streamId)
+						}
+					}
+
+					const headers: Record<string, string> = {
+						"Content-Type": "text/event-stream",
+						"Cache-Control": "no-cache",
+						Connection: "keep-alive",
+					}
+
+					// After initialization, always include the session ID if we have one
+					if (this.sessionId !== undefined) {
+						headers["mcp-session-id"] = this.sessionId
+					}
+
+					// Process messages asynchronously
+					setTimeout(() => {
+						for (const message of messages) {
+							this.dispatchMessage(message, request, { authInfo, traceContext })
+						}
+					}, 0)
+
+					return new Response(readable, { headers })
+				}
+				// JSON and hybrid response modes - store request mappings and return a promise that resolves when all responses are ready
+				for (const message of messages) {
+					if (isJSONRPCRequest(message)) {
+						this._requestToStreamMapping.set(message.id, streamId)
+					}
+				}
+
+				// Create a promise that resolves when all responses are ready
+				// or, in hybrid mode, when the response upgrades to an SSE stream
+				const responsePromise = new Promise<Response>((resolve) => {
+					const hybrid = responseMode === "hybrid"
+					let timeout: ReturnType<typeof setTimeout> | undefined
+					if (hybrid) {
+						timeout = setTimeout(() => this.upgradeToSSEStream(streamId), this._hybridUpgradeDelay)
+					} else if (this._jsonResponseTimeout !== undefined) {
+						timeout = setTimeout(() => this.handleJsonResponseTimeout(streamId), this._jsonResponseTimeout)
+					}
+					this._pendingResponses.set(streamId, { resolve, timeout, hybrid, isBatch, invalidMessageErrors })
+				})
+
+				// Process messages asynchronously
+				setTimeout(() => {
+					for (const message of messages) {
+						this.dispatchMessage(message, request, { authInfo, traceContext })
+					}
+				}, 0)
+
+				return responsePromise
+			}
+
+			return new Response("", { status: 200 })
+		} catch (error) {
+			// return JSON-RPC formatted error
+			if (error instanceof JSONRPCTransportError) {
+				return error.toResponse(this._debug)
+			}
+
+			this.onerror?.(error as Error)
+			return new JSONRPCInternalError("Internal error", { data: String(error), cause: error }).toResponse(this._debug)
+		}
+	}
+
+	/**
+	 * Handles DELETE requests to terminate sessions
+	 */
+	protected async handleDeleteRequest(request: Request): Promise<Response> {
+		const validationResponse = this.validateSession(request)
+		if (validationResponse) {
+			return validationResponse
+		}
+
+		const protocolVersionResponse = this.validateProtocolVersion(request)
+		if (protocolVersionResponse) {
+			return protocolVersionResponse
+		}
+
+		await this.closeSession("deleted")
+		return new Response("", { status: 200 })
+	}
+
+	/**
+	 * Starts the idle and lifetime timers of a freshly initialized session
+	 */
+	protected startSessionTimers(): void {
+		if (this.sessionId === undefined) {
+			// Stateless transports have no session to expire
+			return
+		}
+
+		if (this._sessionMaxLifetime !== undefined) {
+			this._lifetimeTimer = setTimeout(() => {
+				this.closeSession("expired").catch((error) => this.onerror?.(error as Error))
+			}, this._sessionMaxLifetime)
+		}
+		this.resetIdleTimer()
+	}
+
+	/**
+	 * Restarts the idle timer, if idle expiry is enabled for this session
+	 */
+	protected resetIdleTimer(): void {
+		if (this._sessionIdleTimeout === undefined || this.sessionId === undefined || this._closed) {
+			return
+		}
+
+		clearTimeout(this._idleTimer)
+		this._idleTimer = setTimeout(() => {
+			if (this._requestAbortControllers.size > 0) {
+				// The server is still working on requests, however long they take the session is not idle
+				this.resetIdleTimer()
+				return
+			}
+			this.closeSession("idle").catch((error) => this.onerror?.(error as Error))
+		}, this._sessionIdleTimeout)
+	}
+
+	/**
+	 * Validates session ID for non-initialization requests
+	 * Returns a Response if the session is invalid, null if valid
+	 */
+	private validateSession(request: Request): Response | null {
+		if (this.sessionIdGenerator === undefined) {
+			// If the sessionIdGenerator ID is not set, the session management is disabled
+			// and we don't need to validate the session ID
+			return null
+		}
+
+		if (!this._initialized) {
+			// If the server has not been initialized yet, reject all requests
+			return new JSONRPCBadRequestError("Bad Request: Server not initialized").toResponse()
+		}
+
+		const sessionId = request.headers.get("mcp-session-id")
+
+		if (!sessionId) {
+			// Non-initialization requests without a session ID should return 400 Bad Request
+			return new JSONRPCBadRequestError("Bad Request: Mcp-Session-Id header is required").toResponse()
+		}
+		if (sessionId !== this.sessionId || this._closed) {
+			// Reject requests with invalid session ID with 404 Not Found,
+			// as well as those of a closed session, which the server no longer answers
+			return new JSONRPCSessionNotFoundError().toResponse()
+		}
+
+		return null
+	}
+
+	/**
+	 * Validates the MCP-Protocol-Version header of non-initialization requests
+	 * Returns a Response if the version is not supported, null if valid or absent
+	 */
+	private validateProtocolVersion(request: Request): Response | null {
+		const protocolVersion = request.headers.get("mcp-protocol-version")
+		if (protocolVersion === null || this._supportedProtocolVersions.includes(protocolVersion)) {
+			return null
+		}
+
+		return new JSONRPCBadRequestError(
+			`Bad Request: Unsupported protocol version: ${protocolVersion} (supported versions: ${this._supportedProtocolVersions.join(", ")})`
+		).toResponse()
+	}
+
+	/**
+	 * Returns the protocol version a request was made with: the MCP-Protocol-Version header when present,
+	 * otherwise the version negotiated during initialization, falling back to the spec default.
+	 */
+	private getRequestProtocolVersion(request: Request): string {
+		return request.headers.get("mcp-protocol-version") ?? this.protocolVersion ?? DEFAULT_NEGOTIATED_PROTOCOL_VERSION
+	}
+
+	async close(): Promise<void> {
+		await this.closeSession("shutdown")
+	}
+
+	/**
+	 * Gracefully shuts the transport down, so deploys and evictions do not truncate requests mid-response:
+	 * - new requests and streams are rejected with 503 and a `Retry-After` header,
+	 *   while the client may still answer the requests of the server and send notifications
+	 * - in-flight requests are given up to `timeout` to be answered and have their responses flushed to the client
+	 * - the final notification is sent on the standalone SSE stream, which then ends
+	 * - the transport closes, cancelling the requests still pending
+	 */
+	async drain(options: DrainOptions = {}): Promise<void> {
+		if (this._closed) {
+			return
+		}
+		this._draining = true
+		const deadline = Date.now() + (options.timeout ?? DEFAULT_DRAIN_TIMEOUT)
+
+		// Response streams end once their requests are answered and their queue is flushed
+		await this.waitForDrain(
+			deadline,
+			() =>
+				this._requestAbortControllers.size === 0 &&
+				this._pendingResponses.size === 0 &&
+				Array.from(this._sseQueues.keys()).every(
+					(controller) => controller === this._streamMapping.get(this._standaloneSseStreamId)
+				)
+		)
+
+		const notification = options.notification ?? DEFAULT_DRAIN_NOTIFICATION
+		if (notification && !this._closed && this._streamMapping.has(this._standaloneSseStreamId)) {
+			let sent = false
+			this.send(notification)
+				.catch((error) => this.onerror?.(error as Error))
+				.finally(() => {
+					sent = true
+				})
+			// A slow client may keep the notification waiting, it must not hold the shutdown past the deadline
+			await this.waitForDrain(deadline, () => sent)
+		}
+
+		const controller = this._streamMapping.get(this._standaloneSseStreamId)
+		if (controller && !this._closed) {
+			this._streamMapping.delete(this._standaloneSseStreamId)
+			this.closeSSEStream(controller, this._standaloneSseStreamId)
+			await this.waitForDrain(deadline, () => !this._sseQueues.has(controller))
+		}
+
+		await this.closeSession("shutdown")
+	}
+
+	/**
+	 * Resolves once the condition holds, the deadline is reached or the transport closed meanwhile
+	 */
+	private async waitForDrain(deadline: number, isDrained: () => boolean): Promise<void> {
+		while (!isDrained() && !this._closed && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, Math.min(DRAIN_POLL_INTERVAL, deadline - Date.now())))
+		}
+	}
+
+	/**
+	 * Closes the transport, notifying `onsessionclosed` once with the given reason
+	 */
+	protected async closeSession(reason: SessionCloseReason): Promise<void> {
+		const wasClosed = this._closed
+		this._closed = true
+		clearTimeout(this._idleTimer)
+		clearTimeout(this._lifetimeTimer)
+
+		// Close all SSE streams, without waiting for slow clients to read what is queued
+		this._streamMapping.forEach((controller, streamId) => {
+			this.closeSSEStream(controller, streamId, true)
+		})
+		this._streamMapping.clear()
+		for (const controller of Array.from(this._sseQueues.keys())) {
+			this.discardSSEQueue(controller)
+			try {
+				controller.close()
+			} catch (_error) {
+				// Controller might already be closed
+			}
+		}
+
+		// Stop heartbeats of streams that were no longer mapped, like replaced resumed streams
+		this._heartbeatTimers.forEach((timer) => {
+			clearInterval(timer)
+		})
+		this._heartbeatTimers.clear()
+
+		// Settle any pending JSON responses so their HTTP requests do not hang
+		for (const streamId of Array.from(this._pendingResponses.keys())) {
+			this.resolvePendingResponse(
+				streamId,
+				new JSONRPCServiceUnavailableError(`Service Unavailable: Session closed (${reason})`).toResponse()
+			)
+		}
+		this._requestResponseMap.clear()
+		this._requestToStreamMapping.clear()
+		this._pendingResponses.clear()
+		for (const streamId of Array.from(this._keepAlives.keys())) {
+			this.releaseKeepAlive(streamId)
+		}
+
+		// Stop the work on requests that can no longer be answered
+		for (const abortController of this._requestAbortControllers.values()) {
+			abortController.abort(new Error(`Session closed: ${reason}`))
+		}
+		this._requestAbortControllers.clear()
+
+		if (!wasClosed && this._initialized && this.sessionId !== undefined) {
+			this._onsessionclosed?.(this.sessionId, reason)
+			this.emitTelemetry({ type: "session_closed", sessionId: this.sessionId, reason })
+		}
+		if (!wasClosed) {
+			this.onclose?.()
+		}
+	}
+
+	async send(outboundMessage: JSONRPCMessage, options?: { relatedRequestId?: RequestId }): Promise<void> {
+		this.resetIdleTimer()
+
+		let requestId = options?.relatedRequestId
+		if (isJSONRPCResponse(outboundMessage) || isJSONRPCError(outboundMessage)) {
+			// If the message is a response, use the request ID from the message
+			requestId = outboundMessage.id
+		}
+
+		const message = await this.applyOutboundMiddleware(outboundMessage, requestId)
+		if (message === null) {
+			// A dropped response still answers its request, or its stream would never end
+			const streamId = requestId !== undefined ? this._requestToStreamMapping.get(requestId) : undefined
+			if (streamId && (isJSONRPCResponse(outboundMessage) || isJSONRPCError(outboundMessage))) {
+				this.completeResponse(streamId, outboundMessage.id, null)
+			}
+			return
+		}
+
+		if (isJSONRPCResponse(message) && message.id === this._initializeRequestId) {
+			const protocolVersion = message.result.protocolVersion
+			if (typeof protocolVersion === "string") {
+				this.protocolVersion = protocolVersion
+			}
+		}
+
+		// Check if this message should be sent on the standalone SSE stream (no request ID)
+		if (requestId === undefined) {
+			// For standalone SSE streams, we can only send requests and notifications
+			if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+				throw new Error("Cannot send a response on a standalone SSE stream unless resuming a previous client request")
+			}
+
+			const standaloneController = this._streamMapping.get(this._standaloneSseStreamId)
+			const broker = this.sessionId !== undefined ? this._broker : undefined
+			if (standaloneController === undefined && broker === undefined) {
+				// The spec says the server MAY send messages on the stream, so it's ok to discard if no stream
+				return
+			}
+
+			// Generate and store event ID if event store is provided
+			let eventId: string | undefined
+			if (this._eventStore) {
+				eventId = await this.storeEvent(this._eventStore, this._standaloneSseStreamId, message)
+			}
+
+			if (standaloneController !== undefined) {
+				// Send the message to the standalone SSE stream
+				await this.writeSSEEvent(standaloneController, message, eventId)
+			} else if (broker !== undefined && this.sessionId !== undefined) {
+				// The stream may be held by another instance
+				await broker.publish(this.sessionId, this._standaloneSseStreamId, { message, eventId })
+			}
+			this.emitTelemetry({
+				type: "message_sent",
+				streamId: this._standaloneSseStreamId,
+				message,
+				sessionId: this.sessionId,
+			})
+			return
+		}
+
+		// Get the stream for this request
+		const streamId = this._requestToStreamMapping.get(requestId)
+		if (!streamId) {
+			throw new Error(`No stream found for request ID: ${String(requestId)}`)
+		}
+
+		const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message)
+		if (!isResponse && this._pendingResponses.get(streamId)?.hybrid) {
+			// Progress notifications and server-to-client requests can only be delivered on an SSE stream
+			this.upgradeToSSEStream(streamId)
+		}
+		// Answers of JSON response mode POSTs are held back until every request is answered
+		const isJsonResponse = this._pendingResponses.has(streamId)
+
+		// For SSE responses, generate event ID if event store is provided.
+		// Events are stored even while the stream is disconnected, so a resumed stream can replay them.
+		let eventId: string | undefined
+		if (!isJsonResponse && this._eventStore) {
+			eventId = await this.storeEvent(this._eventStore, streamId, message)
+		}
+
+		// Look the controller up only now: the client may have resumed the stream on a new connection meanwhile
+		const controller = this._streamMapping.get(streamId)
+
+		if (!isJsonResponse && controller) {
+			// Write the event to the response stream, if the client is currently connected
+			await this.writeSSEEvent(controller, message, eventId)
+		} else if (!isJsonResponse && this._broker && this.sessionId !== undefined) {
+			// The client may have resumed the stream on another instance
+			const closeStream =
+				isResponse &&
+				Array.from(this._requestToStreamMapping.entries()).every(
+					([id, sid]) => sid !== streamId || id === requestId || this._requestResponseMap.has(id)
+				)
+			await this._broker.publish(this.sessionId, streamId, { message, eventId, closeStream })
+		}
+		this.emitTelemetry({ type: "message_sent", streamId, message, sessionId: this.sessionId })
+
+		if (isResponse) {
+			this.completeResponse(streamId, requestId, message)
+		}
+	}
+
+	/**
+	 * Records the response of a request, or null if it was dropped,
+	 * and ends its stream once every request of the stream is answered
+	 */
+	private completeResponse(streamId: StreamId, requestId: RequestId, response: JSONRPCMessage | null): void {
+		this._requestResponseMap.set(requestId, response)
+
+		// Get all request IDs for this stream
+		const relatedIds = Array.from(this._requestToStreamMapping.entries())
+			.filter(([_, sid]) => sid === streamId)
+			.map(([id]) => id)
+
+		// Check if we have responses for all requests using this connection
+		const allResponsesReady = relatedIds.every((id) => this._requestResponseMap.has(id))
+		if (!allResponsesReady) {
+			return
+		}
+
+		const controller = this._streamMapping.get(streamId)
+		if (this._pendingResponses.has(streamId)) {
+			// Resolve the pending response promise
+			const responses = relatedIds
+				.map((id) => this._requestResponseMap.get(id))
+				.filter((message): message is JSONRPCMessage => !!message)
+			this.resolvePendingResponse(streamId, this.createJsonResponse(streamId, responses))
+		} else if (controller) {
+			// End the SSE stream
+			this.closeSSEStream(controller, streamId)
+		}
+
+		// Clean up
+		for (const id of relatedIds) {
+			this._requestResponseMap.delete(id)
+			this._requestToStreamMapping.delete(id)
+			this._requestAbortControllers.delete(id)
+		}
+		this._streamMapping.delete(streamId)
+		this.releaseKeepAlive(streamId)
+	}
+}
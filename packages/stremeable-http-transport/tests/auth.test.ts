@@ -0,0 +1,189 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import {
+	EdgeStreamableHTTPSessionManager,
+	EdgeStreamableHTTPTransport,
+	InvalidTokenError,
+	authenticateBearerRequest,
+	createProtectedResourceMetadataHandler,
+	getProtectedResourceMetadataUrl,
+} from "../src"
+import { INITIALIZE_REQUEST, createTestServer, post } from "./helpers"
+
+const AUTH_INFO: AuthInfo = { token: "valid", clientId: "client", scopes: ["read", "write"] }
+
+function request(authorization?: string): Request {
+	return new Request("http://localhost/mcp", { headers: authorization ? { Authorization: authorization } : {} })
+}
+
+describe("authenticateBearerRequest", () => {
+	const verifyAccessToken = async (token: string) => {
+		if (token === "valid") {
+			return AUTH_INFO
+		}
+		if (token === "expired") {
+			return { ...AUTH_INFO, expiresAt: Date.now() / 1000 - 60 }
+		}
+		throw new InvalidTokenError("Unknown token")
+	}
+
+	it("returns the AuthInfo of valid tokens", async () => {
+		expect(
+			await authenticateBearerRequest(request("Bearer valid"), { verifyAccessToken, requiredScopes: ["read"] })
+		).toBe(AUTH_INFO)
+	})
+
+	it.each([
+		[undefined, "Missing Authorization header"],
+		["Basic dXNlcjpwYXNz", "Invalid Authorization header format"],
+		["Bearer unknown", "Unknown token"],
+		["Bearer expired", "Token has expired"],
+	])("answers 401 to the Authorization header %s", async (authorization, message) => {
+		const response = await authenticateBearerRequest(request(authorization), {
+			verifyAccessToken,
+			resourceMetadataUrl: "https://example.com/.well-known/oauth-protected-resource/mcp",
+		})
+
+		expect(response).toBeInstanceOf(Response)
+		const { status, headers } = response as Response
+		expect(status).toBe(401)
+		expect(headers.get("www-authenticate")).toMatch(/^Bearer error="invalid_token"/)
+		expect(headers.get("www-authenticate")).toContain(
+			'resource_metadata="https://example.com/.well-known/oauth-protected-resource/mcp"'
+		)
+		expect((await (response as Response).json()).error.message).toContain(message)
+	})
+
+	it("answers 403 to tokens missing a required scope", async () => {
+		const response = (await authenticateBearerRequest(request("Bearer valid"), {
+			verifyAccessToken,
+			requiredScopes: ["admin"],
+		})) as Response
+
+		expect(response.status).toBe(403)
+		expect(response.headers.get("www-authenticate")).toMatch(/^Bearer error="insufficient_scope"/)
+	})
+
+	it("rethrows unexpected verifier errors", async () => {
+		const verifier = async () => {
+			throw new Error("Network error")
+		}
+
+		await expect(authenticateBearerRequest(request("Bearer valid"), { verifyAccessToken: verifier })).rejects.toThrow(
+			"Network error"
+		)
+	})
+})
+
+describe("getProtectedResourceMetadataUrl", () => {
+	it("inserts the well-known path between the host and the path of the resource", () => {
+		expect(getProtectedResourceMetadataUrl("https://example.com/mcp")).toBe(
+			"https://example.com/.well-known/oauth-protected-resource/mcp"
+		)
+		expect(getProtectedResourceMetadataUrl("https://example.com/")).toBe(
+			"https://example.com/.well-known/oauth-protected-resource"
+		)
+	})
+})
+
+describe("createProtectedResourceMetadataHandler", () => {
+	const handler = createProtectedResourceMetadataHandler({
+		resource: "https://example.com/mcp",
+		authorization_servers: ["https://auth.example.com"],
+	})
+	const url = "https://example.com/.well-known/oauth-protected-resource/mcp"
+
+	it("serves the metadata document", async () => {
+		const response = handler(new Request(url))
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get("access-control-allow-origin")).toBe("*")
+		expect(await response.json()).toEqual({
+			resource: "https://example.com/mcp",
+			authorization_servers: ["https://auth.example.com"],
+		})
+	})
+
+	it("answers preflight requests and refuses other methods", () => {
+		expect(handler(new Request(url, { method: "OPTIONS" })).status).toBe(204)
+		expect(handler(new Request(url, { method: "POST" })).status).toBe(405)
+	})
+})
+
+describe("EdgeStreamableHTTPTransport authentication", () => {
+	it("authenticates requests with the access token verifier", async () => {
+		const onmessage = vi.fn()
+		const transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: undefined,
+			requiredScopes: ["mcp"],
+			resourceMetadataUrl: "https://example.com/.well-known/oauth-protected-resource",
+			verifyAccessToken: async (token) => {
+				if (token === "invalid") {
+					throw new InvalidTokenError("Token expired")
+				}
+				return { token, clientId: "client", scopes: token === "admin" ? ["mcp"] : [] }
+			},
+		})
+		await transport.start()
+		transport.onmessage = onmessage
+		const notification = { jsonrpc: "2.0", method: "notifications/initialized" }
+
+		const missing = await transport.handleRequest(post(notification))
+		const invalid = await transport.handleRequest(post(notification, { Authorization: "Bearer invalid" }))
+		const insufficient = await transport.handleRequest(post(notification, { Authorization: "Bearer user" }))
+		const allowed = await transport.handleRequest(post(notification, { Authorization: "Bearer admin" }))
+
+		expect(missing.status).toBe(401)
+		expect(missing.headers.get("www-authenticate")).toContain("resource_metadata=")
+		expect(invalid.status).toBe(401)
+		expect(insufficient.status).toBe(403)
+		expect(allowed.status).toBe(202)
+		expect(onmessage.mock.calls[0][1].authInfo).toMatchObject({ clientId: "client", scopes: ["mcp"] })
+		await transport.close()
+	})
+})
+
+describe("EdgeStreamableHTTPSessionManager authentication", () => {
+	let serverFactory: ReturnType<typeof vi.fn<typeof createTestServer>>
+	let sessions: EdgeStreamableHTTPSessionManager
+
+	beforeEach(() => {
+		serverFactory = vi.fn(createTestServer)
+	})
+
+	afterEach(async () => {
+		await sessions.close()
+	})
+
+	it("authenticates initialize requests before building a server", async () => {
+		sessions = new EdgeStreamableHTTPSessionManager({
+			serverFactory,
+			responseMode: "json",
+			verifyAccessToken: async (token) => {
+				if (token !== "valid") {
+					throw new InvalidTokenError("Invalid token")
+				}
+				return { token, clientId: "client", scopes: [] }
+			},
+		})
+
+		const unauthorized = await sessions.handleRequest(post(INITIALIZE_REQUEST, { Authorization: "Bearer invalid" }))
+		expect(unauthorized.status).toBe(401)
+		expect(serverFactory).not.toHaveBeenCalled()
+
+		const authorized = await sessions.handleRequest(post(INITIALIZE_REQUEST, { Authorization: "Bearer valid" }))
+		expect(authorized.status).toBe(200)
+		await authorized.text()
+		expect(serverFactory).toHaveBeenCalledTimes(1)
+	})
+
+	it("closes the transport of a failed initialization", async () => {
+		const onsessioninitialized = vi.fn()
+		sessions = new EdgeStreamableHTTPSessionManager({ serverFactory, onsessioninitialized })
+
+		const response = await sessions.handleRequest(post(INITIALIZE_REQUEST, { Accept: "application/json" }))
+
+		expect(response.status).toBe(406)
+		expect(onsessioninitialized).not.toHaveBeenCalled()
+		expect(sessions.size).toBe(0)
+	})
+})
@@ -0,0 +1,125 @@
+import { EdgeStreamableHTTPTransport } from "../src"
+import { readRequestBody } from "../src/body"
+import { connectEchoServer, post } from "./helpers"
+
+/**
+ * Compresses a text with a CompressionStream
+ */
+async function compress(text: string, format: "gzip" | "deflate"): Promise<Uint8Array> {
+	const stream = new Blob([text]).stream().pipeThrough(new CompressionStream(format))
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function request(body: BodyInit, headers: Record<string, string> = {}): Request {
+	return new Request("http://localhost/mcp", { method: "POST", headers, body })
+}
+
+async function expectError(result: string | Response, status: number, message: string): Promise<void> {
+	expect(result).toBeInstanceOf(Response)
+	const response = result as Response
+	expect(response.status).toBe(status)
+	expect(await response.json()).toEqual({ jsonrpc: "2.0", error: { code: -32000, message }, id: null })
+}
+
+describe("readRequestBody", () => {
+	it("reads the body as text", async () => {
+		expect(await readRequestBody(request('{"a":"é"}'))).toBe('{"a":"é"}')
+	})
+
+	it("reads a missing body as an empty string", async () => {
+		expect(await readRequestBody(new Request("http://localhost/mcp", { method: "POST" }))).toBe("")
+	})
+
+	it("rejects bodies announced larger than the limit without reading them", async () => {
+		const body = new ReadableStream({
+			pull() {
+				throw new Error("The body must not be read")
+			},
+		})
+		const result = await readRequestBody(
+			new Request("http://localhost/mcp", {
+				method: "POST",
+				headers: { "Content-Length": "100" },
+				body,
+				duplex: "half",
+			} as RequestInit),
+			{ maxBodySize: 10 }
+		)
+
+		await expectError(result, 413, "Request too large")
+	})
+
+	it("stops reading bodies growing past the limit", async () => {
+		let pulled = 0
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				pulled++
+				controller.enqueue(new Uint8Array(8))
+			},
+		})
+		const result = await readRequestBody(
+			new Request("http://localhost/mcp", { method: "POST", body, duplex: "half" } as RequestInit),
+			{ maxBodySize: 20 }
+		)
+
+		await expectError(result, 413, "Request too large")
+		expect(pulled).toBeLessThan(10)
+	})
+
+	it("decodes gzip and deflate bodies, applying the limit after decompression", async () => {
+		const text = JSON.stringify({ padding: "x".repeat(1000) })
+
+		expect(await readRequestBody(request(await compress(text, "gzip"), { "Content-Encoding": "gzip" }))).toBe(text)
+		expect(await readRequestBody(request(await compress(text, "deflate"), { "Content-Encoding": "deflate" }))).toBe(
+			text
+		)
+		await expectError(
+			await readRequestBody(request(await compress(text, "gzip"), { "Content-Encoding": "gzip" }), {
+				maxBodySize: 100,
+			}),
+			413,
+			"Request too large"
+		)
+	})
+
+	it("rejects unsupported encodings and charsets", async () => {
+		await expectError(
+			await readRequestBody(request("{}", { "Content-Encoding": "br" })),
+			415,
+			"Unsupported Media Type: Unsupported Content-Encoding: br"
+		)
+		await expectError(
+			await readRequestBody(request("{}", { "Content-Type": "application/json; charset=latin1" })),
+			415,
+			"Unsupported Media Type: Unsupported charset: latin1"
+		)
+		expect(await readRequestBody(request("{}", { "Content-Type": 'application/json; charset="UTF-8"' }))).toBe("{}")
+	})
+
+	it("rejects corrupt compressed bodies and invalid UTF-8", async () => {
+		await expectError(
+			await readRequestBody(request(new Uint8Array([1, 2, 3]), { "Content-Encoding": "gzip" })),
+			400,
+			"Bad Request: Failed to read request body"
+		)
+		await expectError(
+			await readRequestBody(request(new Uint8Array([0xff, 0xfe]))),
+			400,
+			"Bad Request: Request body is not valid UTF-8"
+		)
+	})
+})
+
+describe("EdgeStreamableHTTPTransport body limit", () => {
+	it("rejects oversized bodies", async () => {
+		const transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, maxBodySize: 64 })
+		await connectEchoServer(transport)
+
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "ping", params: { padding: "x".repeat(100) } })
+		)
+
+		expect(response.status).toBe(413)
+		await transport.close()
+	})
+})
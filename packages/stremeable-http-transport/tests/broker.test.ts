@@ -0,0 +1,164 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import {
+	BroadcastChannelMessageBroker,
+	type BrokerMessage,
+	EdgeStreamableHTTPTransport,
+	InMemoryEventStore,
+	InMemoryMessageBroker,
+	createMcpFetchHandler,
+} from "../src"
+import {
+	INITIALIZE_REQUEST,
+	collectStream,
+	connectEchoServer,
+	createTestServer,
+	get,
+	initialize,
+	parseSSEMessages,
+	post,
+	readMessages,
+	sessionHeaders,
+	sleep,
+} from "./helpers"
+
+const brokerMessage: BrokerMessage = {
+	message: { jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: "hi" } },
+}
+
+describe("InMemoryMessageBroker", () => {
+	it("delivers messages to the subscribers of their stream until they unsubscribe", async () => {
+		const broker = new InMemoryMessageBroker()
+		const handler = vi.fn()
+		const other = vi.fn()
+		const unsubscribe = await broker.subscribe("session", "stream", handler)
+		await broker.subscribe("session", "other", other)
+
+		await broker.publish("session", "stream", brokerMessage)
+		unsubscribe()
+		await broker.publish("session", "stream", brokerMessage)
+
+		expect(handler).toHaveBeenCalledTimes(1)
+		expect(handler).toHaveBeenCalledWith(brokerMessage)
+		expect(other).not.toHaveBeenCalled()
+	})
+})
+
+describe("BroadcastChannelMessageBroker", () => {
+	it("delivers messages to subscribers of every instance", async () => {
+		const publisher = new BroadcastChannelMessageBroker({ channelName: "test-broker" })
+		const subscriber = new BroadcastChannelMessageBroker({ channelName: "test-broker" })
+		const local = vi.fn()
+		const remote = vi.fn()
+		await publisher.subscribe("session", "stream", local)
+		const unsubscribe = await subscriber.subscribe("session", "stream", remote)
+
+		await publisher.publish("session", "stream", brokerMessage)
+		await sleep(20)
+
+		expect(local).toHaveBeenCalledWith(brokerMessage)
+		expect(remote).toHaveBeenCalledWith(brokerMessage)
+		unsubscribe()
+		publisher.close()
+	})
+})
+
+describe("EdgeStreamableHTTPTransport with a broker", () => {
+	it("still answers requests of its own streams", async () => {
+		const transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			broker: new InMemoryMessageBroker(),
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionHeaders(sessionId))
+		)
+
+		expect(await response.text()).toContain('"echo":"ping"')
+		await transport.close()
+	})
+})
+
+describe("createMcpFetchHandler with a broker", () => {
+	const broker = new InMemoryMessageBroker()
+	const eventStore = new InMemoryEventStore()
+	let servers: McpServer[]
+
+	/**
+	 * Creates the test server, with a `slow` tool reporting its progress before answering
+	 */
+	function createServer(): McpServer {
+		const server = createTestServer()
+		server.tool("slow", "Answers after a while", async (extra) => {
+			await extra.sendNotification({
+				method: "notifications/progress",
+				params: { progressToken: "token", progress: 1 },
+			})
+			await sleep(50)
+			return { content: [{ type: "text", text: "done" }] }
+		})
+		servers.push(server)
+		return server
+	}
+
+	/**
+	 * Initializes a session on a handler and returns its session ID
+	 */
+	async function initializeOn(handler: (request: Request) => Promise<Response>): Promise<string> {
+		const response = await handler(post(INITIALIZE_REQUEST))
+		await response.text()
+		return response.headers.get("mcp-session-id") ?? ""
+	}
+
+	beforeEach(() => {
+		servers = []
+	})
+
+	it("takes over the sessions initialized by another instance", async () => {
+		const first = createMcpFetchHandler(createServer, { broker, eventStore })
+		const second = createMcpFetchHandler(createServer, { broker, eventStore })
+		const sessionId = await initializeOn(first)
+
+		const standalone = await second(get(sessionHeaders(sessionId)))
+		const stream = collectStream(standalone)
+		const listed = await second(post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, sessionHeaders(sessionId)))
+		await sleep(10)
+		servers[0]?.sendToolListChanged()
+		await sleep(10)
+
+		expect(standalone.status).toBe(200)
+		expect(await readMessages(listed)).toMatchObject([{ id: 1, result: { tools: expect.any(Array) } }])
+		expect(servers).toHaveLength(2)
+		await first.close()
+		await second.close()
+		await stream.done
+		expect(parseSSEMessages(stream.text())).toEqual([{ jsonrpc: "2.0", method: "notifications/tools/list_changed" }])
+	})
+
+	it("keeps a stream resumed on another instance open while its requests are pending there", async () => {
+		const first = createMcpFetchHandler(createServer, { broker, eventStore })
+		const second = createMcpFetchHandler(createServer, { broker, eventStore })
+		const sessionId = await initializeOn(first)
+
+		const response = await first(
+			post({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "slow" } }, sessionHeaders(sessionId))
+		)
+		// Disconnect right after the progress notification, before the answer
+		const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+		let text = ""
+		while (!text.includes("\n\n")) {
+			const { value } = await reader.read()
+			text += new TextDecoder().decode(value)
+		}
+		await reader.cancel()
+		const lastEventId = text.match(/^id: (.+)$/m)?.[1] ?? ""
+
+		const resumed = await second(get({ ...sessionHeaders(sessionId), "Last-Event-ID": lastEventId }))
+
+		expect(resumed.status).toBe(200)
+		expect(await readMessages(resumed)).toMatchObject([{ id: 1, result: { content: [{ text: "done" }] } }])
+		await first.close()
+		await second.close()
+	})
+})
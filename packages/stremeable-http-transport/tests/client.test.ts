@@ -0,0 +1,157 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import {
+	EdgeStreamableHTTPClientError,
+	EdgeStreamableHTTPClientTransport,
+	EdgeStreamableHTTPSessionManager,
+	createMcpFetchHandler,
+} from "../src"
+import { INITIALIZE_REQUEST, createTestServer, sleep } from "./helpers"
+
+const ENDPOINT = "http://localhost/mcp"
+
+describe("EdgeStreamableHTTPClientTransport", () => {
+	it.each(["sse", "json"] as const)("talks to the server in-process with %s responses", async (responseMode) => {
+		const handler = createMcpFetchHandler(createTestServer, { responseMode })
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, { fetch: (request) => handler(request) })
+		const client = new Client({ name: "test-client", version: "1.0.0" })
+
+		await client.connect(transport)
+		const { tools } = await client.listTools()
+		const result = await client.callTool({ name: "echo", arguments: {} })
+
+		expect(transport.sessionId).toBeDefined()
+		expect(transport.protocolVersion).toBeDefined()
+		expect(tools.map((tool) => tool.name)).toEqual(["echo"])
+		expect(result.content).toEqual([{ type: "text", text: "hello" }])
+
+		await client.close()
+		expect(transport.sessionId).toBeUndefined()
+		await handler.close()
+	})
+
+	it("receives messages sent on the standalone stream", async () => {
+		const server = createTestServer()
+		const sessions = new EdgeStreamableHTTPSessionManager({ serverFactory: () => server })
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, {
+			fetch: (request) => sessions.handleRequest(request),
+		})
+		const client = new Client({ name: "test-client", version: "1.0.0" })
+		await client.connect(transport)
+		await sleep(10)
+
+		const received = new Promise<void>((resolve) => {
+			client.fallbackNotificationHandler = async (notification) => {
+				if (notification.method === "notifications/custom") {
+					resolve()
+				}
+			}
+		})
+		await server.server.notification({ method: "notifications/custom" })
+
+		await received
+		await client.close()
+		await sessions.close()
+	})
+
+	it("reports HTTP errors and forgets sessions the server lost", async () => {
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, {
+			sessionId: "lost",
+			fetch: async () => new Response("Session not found", { status: 404 }),
+		})
+		const onerror = vi.fn()
+		transport.onerror = onerror
+		await transport.start()
+
+		const sending = transport.send({ jsonrpc: "2.0", id: 1, method: "ping" })
+
+		await expect(sending).rejects.toBeInstanceOf(EdgeStreamableHTTPClientError)
+		await expect(sending).rejects.toMatchObject({ status: 404 })
+		expect(onerror).toHaveBeenCalled()
+		expect(transport.sessionId).toBeUndefined()
+	})
+
+	it("sends its headers, session ID and protocol version with every request", async () => {
+		const requests: Request[] = []
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, {
+			headers: { Authorization: "Bearer token" },
+			sessionId: "session-1",
+			protocolVersion: "2025-03-26",
+			terminateOnClose: false,
+			fetch: async (request) => {
+				requests.push(request)
+				return new Response(null, { status: 202 })
+			},
+		})
+		await transport.start()
+
+		await transport.send({
+			jsonrpc: "2.0",
+			method: "notifications/progress",
+			params: { progressToken: 1, progress: 1 },
+		})
+		await transport.close()
+
+		expect(requests).toHaveLength(1)
+		expect(requests[0].headers.get("authorization")).toBe("Bearer token")
+		expect(requests[0].headers.get("mcp-session-id")).toBe("session-1")
+		expect(requests[0].headers.get("mcp-protocol-version")).toBe("2025-03-26")
+	})
+
+	it("resumes an interrupted response stream with Last-Event-ID", async () => {
+		const requests: Request[] = []
+		const encoder = new TextEncoder()
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, {
+			reconnection: { initialDelay: 1 },
+			fetch: async (request) => {
+				requests.push(request)
+				if (request.method === "POST") {
+					// The stream ends after a progress notification, before the response
+					return new Response(
+						encoder.encode(
+							'id: event-1\nevent: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progressToken":1,"progress":1}}\n\n'
+						),
+						{ headers: { "Content-Type": "text/event-stream" } }
+					)
+				}
+				return new Response(
+					encoder.encode('id: event-2\nevent: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n'),
+					{ headers: { "Content-Type": "text/event-stream" } }
+				)
+			},
+		})
+		const messages: JSONRPCMessage[] = []
+		const answered = new Promise<void>((resolve) => {
+			transport.onmessage = (message) => {
+				messages.push(message)
+				if ("result" in message) {
+					resolve()
+				}
+			}
+		})
+		await transport.start()
+
+		await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/call" })
+		await answered
+
+		expect(requests.map((request) => request.method)).toEqual(["POST", "GET"])
+		expect(requests[1].headers.get("last-event-id")).toBe("event-1")
+		expect(messages).toHaveLength(2)
+		await transport.close()
+	})
+
+	it("captures the protocol version negotiated during initialization", async () => {
+		const sessions = new EdgeStreamableHTTPSessionManager({ serverFactory: createTestServer, responseMode: "json" })
+		const transport = new EdgeStreamableHTTPClientTransport(ENDPOINT, {
+			fetch: (request) => sessions.handleRequest(request),
+			openStandaloneStream: false,
+		})
+		await transport.start()
+
+		await transport.send(INITIALIZE_REQUEST)
+
+		expect(transport.protocolVersion).toBe("2025-03-26")
+		await transport.close()
+		expect(sessions.size).toBe(0)
+	})
+})
@@ -0,0 +1,118 @@
+import {
+	EdgeStreamableHTTPSessionManager,
+	InvalidTokenError,
+	applyCorsHeaders,
+	createCorsPreflightResponse,
+} from "../src"
+import { INITIALIZE_REQUEST, createTestServer, post } from "./helpers"
+
+function request(origin?: string): Request {
+	return new Request("http://localhost/mcp", { headers: origin ? { Origin: origin } : {} })
+}
+
+describe("createCorsPreflightResponse", () => {
+	it("answers with the allowed methods and headers", () => {
+		const response = createCorsPreflightResponse(request("https://app.test"), { maxAge: 600 })
+
+		expect(response.status).toBe(204)
+		expect(response.headers.get("allow")).toBe("GET, POST, DELETE, OPTIONS")
+		expect(response.headers.get("access-control-allow-origin")).toBe("*")
+		expect(response.headers.get("access-control-allow-methods")).toBe("GET, POST, DELETE, OPTIONS")
+		expect(response.headers.get("access-control-allow-headers")).toContain("mcp-session-id")
+		expect(response.headers.get("access-control-max-age")).toBe("600")
+		expect(response.headers.get("vary")).toBeNull()
+	})
+
+	it("only sends the Allow header without CORS options", () => {
+		const response = createCorsPreflightResponse(request("https://app.test"), undefined, "POST, OPTIONS")
+
+		expect(response.headers.get("allow")).toBe("POST, OPTIONS")
+		expect(response.headers.get("access-control-allow-origin")).toBeNull()
+	})
+
+	it("echoes allowed origins and leaves others out", () => {
+		const options = { allowedOrigins: ["https://*.example.com"], credentials: true }
+
+		const allowed = createCorsPreflightResponse(request("https://app.example.com"), options)
+		const denied = createCorsPreflightResponse(request("https://evil.test"), options)
+
+		expect(allowed.headers.get("access-control-allow-origin")).toBe("https://app.example.com")
+		expect(allowed.headers.get("access-control-allow-credentials")).toBe("true")
+		expect(allowed.headers.get("vary")).toBe("Origin")
+		expect(denied.headers.get("access-control-allow-origin")).toBeNull()
+		expect(denied.headers.get("vary")).toBe("Origin")
+	})
+})
+
+describe("applyCorsHeaders", () => {
+	it("exposes the session ID header", () => {
+		const response = applyCorsHeaders(
+			request("https://app.test"),
+			new Response("body", { status: 201, headers: { "mcp-session-id": "session-1" } }),
+			{}
+		)
+
+		expect(response.status).toBe(201)
+		expect(response.headers.get("mcp-session-id")).toBe("session-1")
+		expect(response.headers.get("access-control-allow-origin")).toBe("*")
+		expect(response.headers.get("access-control-expose-headers")).toBe("mcp-session-id, WWW-Authenticate")
+	})
+
+	it("echoes the origin of credentialed requests instead of the wildcard", () => {
+		const response = applyCorsHeaders(request("https://app.test"), new Response(), { credentials: true })
+
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://app.test")
+		expect(response.headers.get("access-control-allow-credentials")).toBe("true")
+		expect(response.headers.get("vary")).toBe("Origin")
+	})
+
+	it("leaves responses to disallowed origins and already handled responses untouched", () => {
+		const denied = new Response()
+		const handled = new Response(null, { headers: { "Access-Control-Allow-Origin": "https://other.test" } })
+
+		expect(applyCorsHeaders(request("https://evil.test"), denied, { allowedOrigins: ["https://app.test"] })).toBe(
+			denied
+		)
+		expect(applyCorsHeaders(request("https://app.test"), handled, {})).toBe(handled)
+	})
+})
+
+describe("EdgeStreamableHTTPSessionManager CORS", () => {
+	it("answers preflight requests and adds CORS headers", async () => {
+		const sessions = new EdgeStreamableHTTPSessionManager({
+			serverFactory: createTestServer,
+			cors: { allowedOrigins: ["https://app.test"] },
+		})
+
+		const preflight = await sessions.handleRequest(
+			new Request("http://localhost/mcp", { method: "OPTIONS", headers: { Origin: "https://app.test" } })
+		)
+		const response = await sessions.handleRequest(post(INITIALIZE_REQUEST, { Origin: "https://app.test" }))
+
+		expect(preflight.status).toBe(204)
+		expect(preflight.headers.get("access-control-allow-origin")).toBe("https://app.test")
+		expect(response.headers.get("access-control-allow-origin")).toBe("https://app.test")
+		expect(response.headers.get("access-control-expose-headers")).toBe("mcp-session-id, WWW-Authenticate")
+		await response.text()
+		await sessions.close()
+	})
+
+	it("exposes the bearer challenge of unauthorized requests", async () => {
+		const sessions = new EdgeStreamableHTTPSessionManager({
+			serverFactory: createTestServer,
+			cors: {},
+			verifyAccessToken: async () => {
+				throw new InvalidTokenError("Token expired")
+			},
+		})
+
+		const response = await sessions.handleRequest(
+			post(INITIALIZE_REQUEST, { Origin: "https://app.test", Authorization: "Bearer expired" })
+		)
+
+		expect(response.status).toBe(401)
+		expect(response.headers.get("www-authenticate")).toContain('error="invalid_token"')
+		expect(response.headers.get("access-control-expose-headers")).toContain("WWW-Authenticate")
+		await sessions.close()
+	})
+})
@@ -0,0 +1,54 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EdgeStreamableHTTPTransport, InMemoryEventStore } from "../src"
+import { post, sleep } from "./helpers"
+
+describe("client disconnects", () => {
+	let transport: EdgeStreamableHTTPTransport
+	let messages: JSONRPCMessage[]
+	let signal: AbortSignal | undefined
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	/**
+	 * Starts the transport, recording the messages it receives and the signal of the first request
+	 */
+	async function start(): Promise<void> {
+		messages = []
+		signal = undefined
+		transport.onmessage = (message, extra) => {
+			messages.push(message)
+			signal ??= extra?.signal
+		}
+		await transport.start()
+	}
+
+	it("cancels the requests pending on a stream the client left", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined })
+		await start()
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }))
+		await sleep(10)
+		await response.body?.cancel()
+
+		expect(signal?.aborted).toBe(true)
+		expect(messages).toContainEqual({
+			jsonrpc: "2.0",
+			method: "notifications/cancelled",
+			params: { requestId: 1, reason: "Client disconnected" },
+		})
+	})
+
+	it("keeps the requests running when the client can resume their stream", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, eventStore: new InMemoryEventStore() })
+		await start()
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }))
+		await sleep(10)
+		await response.body?.cancel()
+
+		expect(signal?.aborted).toBe(false)
+		expect(messages).toHaveLength(1)
+	})
+})
@@ -0,0 +1,35 @@
+import { EdgeStreamableHTTPSessionManager, EdgeStreamableHTTPTransport } from "../src"
+import { INITIALIZE_REQUEST, connectEchoServer, createTestServer, post } from "./helpers"
+
+describe("DNS rebinding protection", () => {
+	it("rejects hosts and origins outside the allow lists", async () => {
+		const transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: undefined,
+			allowedHosts: ["localhost"],
+			allowedOrigins: ["https://*.example.com"],
+		})
+		await connectEchoServer(transport)
+		const ping = { jsonrpc: "2.0", id: 1, method: "ping" }
+
+		const badHost = await transport.handleRequest(post(ping, {}, "http://evil.test/mcp"))
+		const badOrigin = await transport.handleRequest(post(ping, { Origin: "https://evil.test" }))
+		const allowed = await transport.handleRequest(post(ping, { Origin: "https://app.example.com" }))
+
+		expect(badHost.status).toBe(403)
+		expect(badOrigin.status).toBe(403)
+		expect(allowed.status).toBe(200)
+		await allowed.text()
+		await transport.close()
+	})
+
+	it("validates the Host header before the session manager builds a server", async () => {
+		const serverFactory = vi.fn(createTestServer)
+		const sessions = new EdgeStreamableHTTPSessionManager({ serverFactory, allowedHosts: ["localhost"] })
+
+		const response = await sessions.handleRequest(post(INITIALIZE_REQUEST, {}, "http://evil.test/mcp"))
+
+		expect(response.status).toBe(403)
+		expect(serverFactory).not.toHaveBeenCalled()
+		await sessions.close()
+	})
+})
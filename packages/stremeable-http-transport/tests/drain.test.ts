@@ -0,0 +1,142 @@
+import { EdgeStreamableHTTPTransport, createLegacySSEHandler, createMcpFetchHandler } from "../src"
+import {
+	INITIALIZE_REQUEST,
+	collectStream,
+	connectEchoServer,
+	createTestServer,
+	get,
+	initialize,
+	post,
+	readMessages,
+	sessionHeaders,
+	sleep,
+} from "./helpers"
+
+describe("drain", () => {
+	describe("EdgeStreamableHTTPTransport", () => {
+		let transport: EdgeStreamableHTTPTransport
+
+		beforeEach(async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1" })
+			await connectEchoServer(transport, 50)
+		})
+
+		it("finishes in-flight requests, refusing new ones, then closes", async () => {
+			const onclose = vi.fn()
+			transport.onclose = onclose
+			const sessionId = await initialize(transport)
+			const headers = sessionHeaders(sessionId)
+			const standalone = collectStream(await transport.handleRequest(get(headers)))
+			const inFlight = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }, headers))
+
+			const draining = transport.drain({ timeout: 1000 })
+			const refused = await transport.handleRequest(post({ jsonrpc: "2.0", id: 2, method: "ping" }, headers))
+			const refusedStream = await transport.handleRequest(get(headers))
+			const notification = await transport.handleRequest(
+				post({ jsonrpc: "2.0", method: "notifications/progress", params: {} }, headers)
+			)
+
+			expect(refused.status).toBe(503)
+			expect(refused.headers.get("retry-after")).toBe("1")
+			expect(refusedStream.status).toBe(503)
+			expect(notification.status).toBe(202)
+			expect(await readMessages(inFlight)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "slow" } }])
+			expect(onclose).not.toHaveBeenCalled()
+
+			await draining
+			await standalone.done
+			expect(onclose).toHaveBeenCalled()
+			expect(standalone.text()).toContain(
+				'{"jsonrpc":"2.0","method":"notifications/message","params":{"level":"notice","data":"Server is shutting down"}}'
+			)
+		})
+
+		it("sends the given final notification, or none", async () => {
+			const sessionId = await initialize(transport)
+			const standalone = collectStream(await transport.handleRequest(get(sessionHeaders(sessionId))))
+
+			await transport.drain({ notification: false })
+			await standalone.done
+
+			expect(standalone.text()).not.toContain("notifications/message")
+		})
+
+		it("cancels the requests still pending after the timeout", async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined })
+			let signal: AbortSignal | undefined
+			transport.onmessage = (_message, extra) => {
+				signal = extra?.signal
+			}
+			await transport.start()
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "never" }))
+			await sleep(10)
+
+			const start = Date.now()
+			await transport.drain({ timeout: 50 })
+
+			expect(Date.now() - start).toBeLessThan(500)
+			expect(signal?.aborted).toBe(true)
+			expect(await response.text()).toBe("")
+		})
+	})
+
+	describe("createMcpFetchHandler", () => {
+		it("drains every session and refuses new ones", async () => {
+			const handler = createMcpFetchHandler(createTestServer)
+			const initialized = await handler(post(INITIALIZE_REQUEST))
+			await initialized.text()
+			expect(initialized.status).toBe(200)
+
+			await handler.drain({ timeout: 100 })
+
+			const refused = await handler(post(INITIALIZE_REQUEST))
+			expect(refused.status).toBe(503)
+			const closed = await handler(
+				post({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionHeaders(initialized.headers.get("mcp-session-id") ?? ""))
+			)
+			expect(closed.status).toBe(404)
+		})
+
+		it("drains stateless requests in flight", async () => {
+			const handler = createMcpFetchHandler(
+				() => ({
+					connect: async (transport) => {
+						await connectEchoServer(transport as EdgeStreamableHTTPTransport, 50)
+					},
+				}),
+				{ stateless: true }
+			)
+			const inFlight = handler(post({ jsonrpc: "2.0", id: 1, method: "slow" }))
+			await sleep(10)
+
+			const draining = handler.drain({ timeout: 1000 })
+			const refused = await handler(post({ jsonrpc: "2.0", id: 2, method: "slow" }))
+
+			expect(refused.status).toBe(503)
+			expect(await readMessages(await inFlight)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "slow" } }])
+			await draining
+		})
+	})
+
+	describe("createLegacySSEHandler", () => {
+		it("waits for in-flight requests of legacy sessions", async () => {
+			const handler = createLegacySSEHandler(() => ({
+				connect: async (transport) => {
+					await connectEchoServer(transport as EdgeStreamableHTTPTransport, 50)
+				},
+			}))
+			const stream = collectStream(await handler(get({}, "http://localhost/sse")))
+			await sleep(10)
+			const endpoint = /data: (\S+)/.exec(stream.text())?.[1] as string
+			await handler(post({ jsonrpc: "2.0", id: 1, method: "slow" }, {}, new URL(endpoint, "http://localhost").href))
+
+			await handler.drain({ timeout: 1000 })
+			await stream.done
+
+			expect(stream.text()).toContain('{"jsonrpc":"2.0","id":1,"result":{"echo":"slow"}}')
+			expect(stream.text()).toContain("Server is shutting down")
+			const refused = await handler(get({}, "http://localhost/sse"))
+			expect(refused.status).toBe(503)
+		})
+	})
+})
@@ -0,0 +1,140 @@
+import {
+	EdgeStreamableHTTPTransport,
+	JSONRPCInvalidRequestError,
+	JSONRPCMethodNotAllowedError,
+	JSONRPCSessionNotFoundError,
+	JSONRPCTooManyRequestsError,
+	JSON_RPC_ERROR_CODES,
+} from "../src"
+import { connectEchoServer, initialize, post, sessionHeaders } from "./helpers"
+
+describe("JSONRPCTransportError", () => {
+	it("builds the JSON-RPC error response, only exposing data when asked to", async () => {
+		const error = new JSONRPCInvalidRequestError("Invalid Request: Bad", { id: 3, data: "details" })
+
+		expect(error.toJSONRPC()).toEqual({
+			jsonrpc: "2.0",
+			error: { code: JSON_RPC_ERROR_CODES.INVALID_REQUEST, message: "Invalid Request: Bad" },
+			id: 3,
+		})
+		expect(error.toJSONRPC(true).error.data).toBe("details")
+		const response = error.toResponse()
+		expect(response.status).toBe(400)
+		expect(response.headers.get("content-type")).toBe("application/json")
+		expect(await response.json()).toEqual(error.toJSONRPC())
+	})
+
+	it("sends the Retry-After header", () => {
+		const response = new JSONRPCTooManyRequestsError("Too Many Requests", 5).toResponse()
+
+		expect(response.status).toBe(429)
+		expect(response.headers.get("retry-after")).toBe("5")
+	})
+
+	it("sends the Allow header of unsupported methods", () => {
+		const response = new JSONRPCMethodNotAllowedError("Method not allowed.", "GET, POST").toResponse()
+
+		expect(response.status).toBe(405)
+		expect(response.headers.get("allow")).toBe("GET, POST")
+		expect(response.headers.get("content-type")).toBe("application/json")
+	})
+
+	it("answers unknown sessions with 404", async () => {
+		const response = new JSONRPCSessionNotFoundError().toResponse()
+
+		expect(response.status).toBe(404)
+		expect(await response.json()).toEqual({
+			jsonrpc: "2.0",
+			error: { code: -32001, message: "Session not found" },
+			id: null,
+		})
+	})
+})
+
+describe("EdgeStreamableHTTPTransport errors", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	it("rejects malformed requests", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1" })
+		await connectEchoServer(transport)
+		const headers = sessionHeaders(await initialize(transport))
+
+		const notAcceptable = await transport.handleRequest(
+			new Request("http://localhost/mcp", {
+				method: "POST",
+				headers: { ...headers, Accept: "application/json", "Content-Type": "application/json" },
+				body: "{}",
+			})
+		)
+		const unsupportedMediaType = await transport.handleRequest(post("{}", { ...headers, "Content-Type": "text/plain" }))
+		const parseError = await transport.handleRequest(post("{not json", headers))
+		const invalidRequest = await transport.handleRequest(post({ jsonrpc: "2.0", id: 7, foo: "bar" }, headers))
+
+		expect(notAcceptable.status).toBe(406)
+		expect(unsupportedMediaType.status).toBe(415)
+		expect(parseError.status).toBe(400)
+		expect(await parseError.json()).toMatchObject({ error: { code: -32700 } })
+		expect(invalidRequest.status).toBe(400)
+		expect(await invalidRequest.json()).toMatchObject({ id: 7, error: { code: -32600 } })
+	})
+
+	it("answers unsupported methods with 405", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1" })
+
+		const response = await transport.handleRequest(new Request("http://localhost/mcp", { method: "PUT" }))
+
+		expect(response.status).toBe(405)
+		expect(response.headers.get("allow")).toBe("GET, POST, DELETE, OPTIONS")
+	})
+
+	it("answers the invalid entries of a batch with their own error, processing the valid ones", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, responseMode: "json" })
+		await connectEchoServer(transport)
+
+		const response = await transport.handleRequest(
+			post([{ jsonrpc: "2.0", id: 1, method: "a" }, { jsonrpc: "2.0", id: 2, foo: "bar" }, "garbage"])
+		)
+
+		expect(response.status).toBe(200)
+		const messages = await response.json()
+		expect(messages).toHaveLength(3)
+		expect(messages).toContainEqual({ jsonrpc: "2.0", id: 1, result: { echo: "a" } })
+		expect(messages).toContainEqual({ jsonrpc: "2.0", id: 2, error: expect.objectContaining({ code: -32600 }) })
+		expect(messages).toContainEqual({ jsonrpc: "2.0", id: null, error: expect.objectContaining({ code: -32600 }) })
+	})
+
+	it.each([
+		[false, undefined],
+		[true, expect.any(String)],
+	])("only exposes error data when debug is %s", async (debug, data) => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, debug })
+		await connectEchoServer(transport)
+
+		const response = await transport.handleRequest(post("{not json"))
+
+		const { error } = await response.json()
+		expect(error.code).toBe(-32700)
+		expect(error.data).toEqual(data)
+	})
+
+	it("reports failures of the code handling messages as internal errors without leaking them", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, responseMode: "json" })
+		const onerror = vi.fn()
+		transport.onerror = onerror
+		transport.onmessage = () => {
+			throw new Error("Secret failure")
+		}
+		await transport.start()
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "a" }))
+
+		const body = await response.json()
+		expect(body).toMatchObject({ id: 1, error: { code: -32603 } })
+		expect(JSON.stringify(body)).not.toContain("Secret failure")
+		expect(onerror).toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,108 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { type EventStore, InMemoryEventStore, InMemoryKeyValueAdapter, KeyValueEventStore } from "../src"
+
+const message = (index: number): JSONRPCMessage => ({
+	jsonrpc: "2.0",
+	method: "notifications/message",
+	params: { level: "info", data: index },
+})
+
+/**
+ * Replays the events stored after an event, returning their data and the stream they belong to
+ */
+async function replay(store: EventStore, lastEventId: string): Promise<{ data: unknown[]; streamId: string }> {
+	const data: unknown[] = []
+	const streamId = await store.replayEventsAfter(lastEventId, {
+		send: async (_eventId, replayed) => {
+			data.push("params" in replayed ? replayed.params?.data : undefined)
+		},
+	})
+	return { data, streamId }
+}
+
+describe.each([
+	["InMemoryEventStore", () => new InMemoryEventStore()],
+	["KeyValueEventStore", () => new KeyValueEventStore({ adapter: new InMemoryKeyValueAdapter() })],
+])("%s", (_name, createStore) => {
+	it("replays the events of a stream after the given one, in order", async () => {
+		const store = createStore()
+		const first = await store.storeEvent("stream-a", message(1))
+		await store.storeEvent("stream-b", message(2))
+		await store.storeEvent("stream-a", message(3))
+		await store.storeEvent("stream-a", message(4))
+
+		expect(await replay(store, first)).toEqual({ data: [3, 4], streamId: "stream-a" })
+	})
+
+	it("rejects event IDs it did not create", async () => {
+		const store = createStore()
+
+		await expect(replay(store, "garbage")).rejects.toThrow("Bad Request: Invalid Last-Event-ID: garbage")
+	})
+})
+
+describe("InMemoryEventStore", () => {
+	it("evicts the oldest events of a stream past maxEventsPerStream", async () => {
+		const store = new InMemoryEventStore({ maxEventsPerStream: 2 })
+		const first = await store.storeEvent("stream", message(1))
+		for (let i = 2; i <= 4; i++) {
+			await store.storeEvent("stream", message(i))
+		}
+
+		expect((await replay(store, first)).data).toEqual([3, 4])
+	})
+
+	it("evicts the oldest streams past maxStreams", async () => {
+		const store = new InMemoryEventStore({ maxStreams: 2 })
+		const a = await store.storeEvent("stream-a", message(1))
+		await store.storeEvent("stream-a", message(2))
+		const b = await store.storeEvent("stream-b", message(3))
+		await store.storeEvent("stream-b", message(4))
+		await store.storeEvent("stream-c", message(5))
+
+		expect((await replay(store, a)).data).toEqual([])
+		expect((await replay(store, b)).data).toEqual([4])
+	})
+
+	it("evicts events older than the TTL", async () => {
+		vi.useFakeTimers()
+		try {
+			const store = new InMemoryEventStore({ ttl: 1000 })
+			const first = await store.storeEvent("stream", message(1))
+			await store.storeEvent("stream", message(2))
+			vi.advanceTimersByTime(600)
+			await store.storeEvent("stream", message(3))
+			vi.advanceTimersByTime(600)
+
+			expect((await replay(store, first)).data).toEqual([3])
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it("validates its options", () => {
+		expect(() => new InMemoryEventStore({ maxEventsPerStream: 0 })).toThrow()
+		expect(() => new InMemoryEventStore({ maxStreams: 0 })).toThrow()
+	})
+})
+
+describe("InMemoryKeyValueAdapter", () => {
+	it("honors TTLs", async () => {
+		vi.useFakeTimers()
+		try {
+			const adapter = new InMemoryKeyValueAdapter()
+			await adapter.put("a:1", "one", { ttl: 100 })
+			await adapter.put("a:2", "two")
+			await adapter.put("b:1", "three")
+
+			expect((await adapter.list("a:")).sort()).toEqual(["a:1", "a:2"])
+			vi.advanceTimersByTime(200)
+			expect(await adapter.get("a:1")).toBeUndefined()
+			expect(await adapter.list("a:")).toEqual(["a:2"])
+			await adapter.delete("a:2")
+			expect(await adapter.get("a:2")).toBeUndefined()
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+})
@@ -0,0 +1,76 @@
+import {
+	createDenoHandler,
+	createHonoMiddleware,
+	createMcpFetchHandler,
+	createNextRouteHandlers,
+	createWorkersHandler,
+} from "../src"
+import { INITIALIZE_REQUEST, createTestServer, post } from "./helpers"
+
+const TOOLS_LIST = { jsonrpc: "2.0", id: 1, method: "tools/list" } as const
+
+describe("createMcpFetchHandler", () => {
+	it("only serves its path when one is set", async () => {
+		const handler = createMcpFetchHandler(createTestServer, { path: "/mcp" })
+
+		const response = await handler(post(INITIALIZE_REQUEST, {}, "http://localhost/other"))
+
+		expect(response.status).toBe(404)
+		await handler.close()
+	})
+
+	it("routes requests to their session", async () => {
+		const handler = createMcpFetchHandler(createTestServer, { path: "/mcp", responseMode: "json" })
+		const initialized = await handler(post(INITIALIZE_REQUEST))
+		await initialized.text()
+		const sessionId = initialized.headers.get("mcp-session-id") as string
+
+		const response = await handler(post(TOOLS_LIST, { "mcp-session-id": sessionId }))
+
+		expect(await response.json()).toMatchObject({ id: 1, result: { tools: [{ name: "echo" }] } })
+		await handler.close()
+	})
+})
+
+describe("adapters", () => {
+	it("hands the request and execution context over to the handler", async () => {
+		const handler = vi.fn(async () => new Response("ok"))
+		const request = new Request("http://localhost/mcp")
+		const executionCtx = { waitUntil: () => undefined }
+
+		await createHonoMiddleware(handler)({ req: { raw: request }, executionCtx })
+		await createHonoMiddleware(handler)({
+			req: { raw: request },
+			get executionCtx(): never {
+				throw new Error("This context has no ExecutionContext")
+			},
+		})
+		await createDenoHandler(handler)(request)
+		await createNextRouteHandlers(handler).OPTIONS(request)
+
+		expect(handler.mock.calls).toEqual([[request, executionCtx], [request, undefined], [request], [request]])
+	})
+
+	it("creates the Workers handler on the first request and shares it", async () => {
+		const handler = Object.assign(
+			vi.fn(async () => new Response("ok")),
+			{ drain: vi.fn(async () => undefined), close: vi.fn(async () => undefined) }
+		)
+		const createHandler = vi.fn(() => handler)
+		const worker = createWorkersHandler(createHandler)
+		const ctx = { waitUntil: () => undefined }
+
+		await worker.drain()
+		await worker.fetch(new Request("http://localhost/mcp"), { KV: "binding" }, ctx)
+		await worker.fetch(new Request("http://localhost/mcp"), { KV: "binding" }, ctx)
+		await worker.drain({ timeout: 10 })
+		await worker.close()
+
+		expect(createHandler).toHaveBeenCalledTimes(1)
+		expect(createHandler).toHaveBeenCalledWith({ KV: "binding" })
+		expect(handler).toHaveBeenCalledTimes(2)
+		expect(handler.drain).toHaveBeenCalledTimes(1)
+		expect(handler.drain).toHaveBeenCalledWith({ timeout: 10 })
+		expect(handler.close).toHaveBeenCalledTimes(1)
+	})
+})
@@ -0,0 +1,140 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import type { EdgeStreamableHTTPTransport } from "../src"
+
+export const PROTOCOL_VERSION = "2025-03-26"
+
+export const INITIALIZE_REQUEST: JSONRPCMessage = {
+	jsonrpc: "2.0",
+	id: "init",
+	method: "initialize",
+	params: {
+		protocolVersion: PROTOCOL_VERSION,
+		capabilities: {},
+		clientInfo: { name: "test-client", version: "1.0.0" },
+	},
+}
+
+export const INITIALIZE_RESULT = {
+	protocolVersion: PROTOCOL_VERSION,
+	capabilities: {},
+	serverInfo: { name: "test-server", version: "1.0.0" },
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Builds a POST request carrying JSON-RPC messages
+ */
+export function post(body: unknown, headers: Record<string, string> = {}, url = "http://localhost/mcp"): Request {
+	return new Request(url, {
+		method: "POST",
+		headers: {
+			Accept: "application/json, text/event-stream",
+			"Content-Type": "application/json",
+			...headers,
+		},
+		body: typeof body === "string" ? body : JSON.stringify(body),
+	})
+}
+
+/**
+ * Builds a GET request opening an SSE stream
+ */
+export function get(headers: Record<string, string> = {}, url = "http://localhost/mcp"): Request {
+	return new Request(url, { method: "GET", headers: { Accept: "text/event-stream", ...headers } })
+}
+
+/**
+ * Headers of the requests following initialization
+ */
+export function sessionHeaders(sessionId: string): Record<string, string> {
+	return { "mcp-session-id": sessionId, "mcp-protocol-version": PROTOCOL_VERSION }
+}
+
+/**
+ * Parses the messages of an SSE body
+ */
+export function parseSSEMessages(text: string): JSONRPCMessage[] {
+	return text
+		.split("\n\n")
+		.flatMap((event) => event.split("\n").filter((line) => line.startsWith("data: ")))
+		.map((line) => JSON.parse(line.slice("data: ".length)))
+}
+
+/**
+ * Reads the messages of a response, whether it is a JSON body or an SSE stream
+ */
+export async function readMessages(response: Response): Promise<JSONRPCMessage[]> {
+	const text = await response.text()
+	if (response.headers.get("content-type")?.includes("text/event-stream")) {
+		return parseSSEMessages(text)
+	}
+	const data = JSON.parse(text)
+	return Array.isArray(data) ? data : [data]
+}
+
+/**
+ * Reads an SSE stream in the background, collecting its raw text
+ */
+export function collectStream(response: Response): {
+	text: () => string
+	done: Promise<void>
+	cancel: () => Promise<void>
+} {
+	let text = ""
+	const decoder = new TextDecoder()
+	const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+	const done = (async () => {
+		for (;;) {
+			const { value, done } = await reader.read()
+			if (done) {
+				return
+			}
+			text += decoder.decode(value)
+		}
+	})()
+	return { text: () => text, done, cancel: () => reader.cancel() }
+}
+
+/**
+ * Connects a handler to a transport, answering initialize and echoing every other request after an optional delay
+ */
+export async function connectEchoServer(transport: EdgeStreamableHTTPTransport, delay = 0): Promise<void> {
+	transport.onmessage = async (message) => {
+		if (!("id" in message) || !("method" in message)) {
+			return
+		}
+		if (message.method === "initialize") {
+			await transport.send({ jsonrpc: "2.0", id: message.id, result: INITIALIZE_RESULT })
+			return
+		}
+		if (delay > 0) {
+			await sleep(delay)
+		}
+		await transport.send({ jsonrpc: "2.0", id: message.id, result: { echo: message.method } })
+	}
+	await transport.start()
+}
+
+/**
+ * Initializes a stateful transport and returns its session ID
+ */
+export async function initialize(transport: EdgeStreamableHTTPTransport): Promise<string> {
+	const response = await transport.handleRequest(post(INITIALIZE_REQUEST))
+	await response.text()
+	const sessionId = response.headers.get("mcp-session-id")
+	if (!sessionId) {
+		throw new Error(`Initialization failed with HTTP ${response.status}`)
+	}
+	return sessionId
+}
+
+/**
+ * Creates an MCP server exposing an `echo` tool
+ */
+export function createTestServer(): McpServer {
+	const server = new McpServer({ name: "test-server", version: "1.0.0" })
+	server.tool("echo", "Echoes a fixed text", async () => ({ content: [{ type: "text", text: "hello" }] }))
+	return server
+}
@@ -0,0 +1,94 @@
+import { createLegacySSEHandler, createMcpFetchHandler } from "../src"
+import { INITIALIZE_REQUEST, collectStream, createTestServer, get, post, sleep } from "./helpers"
+
+const LEGACY_INITIALIZE_REQUEST = {
+	jsonrpc: "2.0",
+	id: "init",
+	method: "initialize",
+	params: {
+		protocolVersion: "2024-11-05",
+		capabilities: {},
+		clientInfo: { name: "test-client", version: "1.0.0" },
+	},
+}
+
+/**
+ * Opens the SSE stream of a legacy session and returns it with the endpoint messages are POSTed to
+ */
+async function openSession(handler: (request: Request) => Promise<Response>, ssePath = "/sse") {
+	const response = await handler(get({}, `http://localhost${ssePath}`))
+	const stream = collectStream(response)
+	await sleep(10)
+	const endpoint = /event: endpoint\ndata: (\S+)/.exec(stream.text())?.[1]
+	if (!endpoint) {
+		throw new Error(`No endpoint event received, got HTTP ${response.status}`)
+	}
+	return { response, stream, endpoint: new URL(endpoint, "http://localhost").href }
+}
+
+describe("createLegacySSEHandler", () => {
+	it("answers messages on the SSE stream of their session", async () => {
+		const handler = createLegacySSEHandler(createTestServer)
+		const { response, stream, endpoint } = await openSession(handler)
+
+		const accepted = await handler(post(LEGACY_INITIALIZE_REQUEST, {}, endpoint))
+		await sleep(10)
+
+		expect(response.headers.get("content-type")).toBe("text/event-stream")
+		expect(endpoint).toMatch(/^http:\/\/localhost\/messages\?sessionId=/)
+		expect(accepted.status).toBe(202)
+		expect(stream.text()).toContain('"id":"init"')
+		expect(stream.text()).toContain('"protocolVersion":"2024-11-05"')
+
+		await handler.close()
+		await stream.done
+	})
+
+	it("requires the session of messages", async () => {
+		const handler = createLegacySSEHandler(createTestServer)
+
+		const missing = await handler(post(INITIALIZE_REQUEST, {}, "http://localhost/messages"))
+		const unknown = await handler(post(INITIALIZE_REQUEST, {}, "http://localhost/messages?sessionId=unknown"))
+
+		expect(missing.status).toBe(400)
+		expect(unknown.status).toBe(404)
+	})
+
+	it("answers other methods and paths", async () => {
+		const handler = createLegacySSEHandler(createTestServer, { cors: {} })
+
+		const preflight = await handler(new Request("http://localhost/messages", { method: "OPTIONS" }))
+		const notAllowed = await handler(post(INITIALIZE_REQUEST, {}, "http://localhost/sse"))
+		const notFound = await handler(get({}, "http://localhost/other"))
+
+		expect(preflight.status).toBe(204)
+		expect(preflight.headers.get("allow")).toBe("POST, OPTIONS")
+		expect(notAllowed.status).toBe(405)
+		expect(notAllowed.headers.get("allow")).toBe("GET, OPTIONS")
+		expect(notFound.status).toBe(404)
+	})
+
+	it("closes the session once the client disconnects", async () => {
+		const handler = createLegacySSEHandler(createTestServer)
+		const { stream, endpoint } = await openSession(handler)
+
+		await stream.cancel()
+		await sleep(10)
+
+		expect((await handler(post(INITIALIZE_REQUEST, {}, endpoint))).status).toBe(404)
+	})
+
+	it("is served next to the Streamable HTTP endpoint by createMcpFetchHandler", async () => {
+		const handler = createMcpFetchHandler(createTestServer, {
+			path: "/mcp",
+			legacySse: { ssePath: "/legacy/sse", messagesPath: "/legacy/messages" },
+		})
+		const { stream, endpoint } = await openSession(handler, "/legacy/sse")
+
+		expect(endpoint).toMatch(/^http:\/\/localhost\/legacy\/messages\?sessionId=/)
+		expect((await handler(post(INITIALIZE_REQUEST))).status).toBe(200)
+
+		await handler.close()
+		await stream.done
+	})
+})
@@ -0,0 +1,147 @@
+import { type JSONRPCMessage, isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js"
+import { EdgeStreamableHTTPTransport, type MessageMiddleware } from "../src"
+import { connectEchoServer, post, readMessages } from "./helpers"
+
+describe("message middleware", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	async function createTransport(
+		middleware: MessageMiddleware[],
+		responseMode: "sse" | "json" = "sse",
+		maxInFlightRequests?: number
+	): Promise<JSONRPCMessage[]> {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: undefined,
+			middleware,
+			responseMode,
+			maxInFlightRequests,
+		})
+		const received: JSONRPCMessage[] = []
+		await connectEchoServer(transport)
+		const onmessage = transport.onmessage
+		transport.onmessage = (message, extra) => {
+			received.push(message)
+			onmessage?.(message, extra)
+		}
+		return received
+	}
+
+	it("runs inbound middleware in order before the server sees a message", async () => {
+		const calls: string[] = []
+		const received = await createTransport([
+			{
+				inbound: (message) => {
+					calls.push("first")
+					return isJSONRPCRequest(message) ? { ...message, method: `${message.method}:first` } : message
+				},
+			},
+			{
+				inbound: async (message, context) => {
+					calls.push(`second ${context.request.method}`)
+					return isJSONRPCRequest(message) ? { ...message, method: `${message.method}:second` } : message
+				},
+			},
+		])
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+
+		expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "ping:first:second" } }])
+		expect(calls).toEqual(["first", "second POST"])
+		expect(received).toHaveLength(1)
+	})
+
+	it("answers requests short-circuited by inbound middleware without reaching the server", async () => {
+		const received = await createTransport([
+			{
+				inbound: (message) =>
+					isJSONRPCRequest(message) && message.method === "forbidden"
+						? { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Not allowed" } }
+						: message,
+			},
+		])
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "forbidden" }))
+
+		expect(await readMessages(response)).toEqual([
+			{ jsonrpc: "2.0", id: 1, error: { code: -32601, message: "Not allowed" } },
+		])
+		expect(received).toHaveLength(0)
+	})
+
+	it("answers requests dropped by inbound middleware with Method not found, releasing their slot", async () => {
+		const received = await createTransport(
+			[{ inbound: (message) => (isJSONRPCRequest(message) && message.method === "tools/list" ? null : message) }],
+			"sse",
+			1
+		)
+
+		const dropped = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "tools/list" }))
+		expect(await readMessages(dropped)).toEqual([
+			{ jsonrpc: "2.0", id: 1, error: { code: -32601, message: "Method not found" } },
+		])
+
+		const next = await transport.handleRequest(post({ jsonrpc: "2.0", id: 2, method: "ping" }))
+		expect(next.status).toBe(200)
+		expect(await readMessages(next)).toEqual([{ jsonrpc: "2.0", id: 2, result: { echo: "ping" } }])
+		expect(received).toHaveLength(1)
+	})
+
+	it("answers requests with an internal error when inbound middleware throws", async () => {
+		const onerror = vi.fn()
+		await createTransport([
+			{
+				inbound: () => {
+					throw new Error("boom")
+				},
+			},
+		])
+		transport.onerror = onerror
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+
+		expect(await readMessages(response)).toEqual([
+			{ jsonrpc: "2.0", id: 1, error: { code: -32603, message: "Internal error" } },
+		])
+		expect(onerror).toHaveBeenCalledWith(new Error("boom"))
+	})
+
+	it("modifies outbound messages", async () => {
+		await createTransport([
+			{
+				outbound: (message, context) =>
+					"result" in message
+						? { ...message, result: { redacted: true, relatedRequestId: context.relatedRequestId } }
+						: message,
+			},
+		])
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+
+		expect(await readMessages(response)).toEqual([
+			{ jsonrpc: "2.0", id: 1, result: { redacted: true, relatedRequestId: 1 } },
+		])
+	})
+
+	it.each(["sse", "json"] as const)(
+		"ends the %s response of responses dropped by outbound middleware",
+		async (mode) => {
+			await createTransport([{ outbound: (message) => ("id" in message && message.id === 1 ? null : message) }], mode)
+
+			const batch = await transport.handleRequest(
+				post([
+					{ jsonrpc: "2.0", id: 1, method: "a" },
+					{ jsonrpc: "2.0", id: 2, method: "b" },
+				])
+			)
+			const single = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "a" }))
+
+			expect(await readMessages(batch)).toEqual([{ jsonrpc: "2.0", id: 2, result: { echo: "b" } }])
+			expect(await single.text()).toBe("")
+			expect(single.status).toBe(mode === "json" ? 202 : 200)
+		}
+	)
+})
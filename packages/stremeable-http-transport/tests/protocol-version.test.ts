@@ -0,0 +1,98 @@
+import { EdgeStreamableHTTPTransport } from "../src"
+import { INITIALIZE_RESULT, connectEchoServer, initialize, post, readMessages, sessionHeaders } from "./helpers"
+
+const BATCH = [
+	{ jsonrpc: "2.0", id: 1, method: "a" },
+	{ jsonrpc: "2.0", id: 2, method: "b" },
+]
+
+describe("protocol version negotiation", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	/**
+	 * Initializes a session the server answers with the given protocol version
+	 */
+	async function initializeWithVersion(protocolVersion: string): Promise<string> {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			responseMode: "json",
+			supportedProtocolVersions: ["2025-06-18", "2025-03-26"],
+		})
+		await connectEchoServer(transport)
+		const onmessage = transport.onmessage
+		transport.onmessage = async (message, extra) => {
+			if ("method" in message && message.method === "initialize" && "id" in message) {
+				await transport.send({ jsonrpc: "2.0", id: message.id, result: { ...INITIALIZE_RESULT, protocolVersion } })
+				return
+			}
+			await onmessage?.(message, extra)
+		}
+		return await initialize(transport)
+	}
+
+	it("rejects requests of an unsupported protocol version", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1" })
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(
+			post(
+				{ jsonrpc: "2.0", id: 1, method: "ping" },
+				{ ...sessionHeaders(sessionId), "mcp-protocol-version": "1999-01-01" }
+			)
+		)
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toMatchObject({
+			error: { message: expect.stringContaining("Unsupported protocol version: 1999-01-01") },
+		})
+	})
+
+	it("captures the version negotiated during initialization", async () => {
+		await initializeWithVersion("2025-06-18")
+
+		expect(transport.protocolVersion).toBe("2025-06-18")
+	})
+
+	it("rejects batches from protocol version 2025-06-18 on", async () => {
+		const sessionId = await initializeWithVersion("2025-06-18")
+
+		const response = await transport.handleRequest(
+			post(BATCH, { ...sessionHeaders(sessionId), "mcp-protocol-version": "2025-06-18" })
+		)
+		// Without the header, the negotiated version applies
+		const withoutHeader = await transport.handleRequest(post(BATCH, { "mcp-session-id": sessionId }))
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toMatchObject({
+			error: { code: -32600, message: "Invalid Request: Batching is not supported in protocol version 2025-06-18" },
+		})
+		expect(withoutHeader.status).toBe(400)
+	})
+
+	it("accepts batches of earlier protocol versions", async () => {
+		const sessionId = await initializeWithVersion("2025-03-26")
+
+		const response = await transport.handleRequest(post(BATCH, { "mcp-session-id": sessionId }))
+
+		expect(transport.protocolVersion).toBe("2025-03-26")
+		expect(await readMessages(response)).toHaveLength(2)
+	})
+
+	it("accepts requests without the header", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", responseMode: "json" })
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "ping" }, { "mcp-session-id": sessionId })
+		)
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { echo: "ping" } })
+	})
+})
@@ -0,0 +1,156 @@
+import {
+	EdgeStreamableHTTPSessionManager,
+	EdgeStreamableHTTPTransport,
+	InMemoryRateLimitStore,
+	createMcpFetchHandler,
+} from "../src"
+import { INITIALIZE_REQUEST, connectEchoServer, createTestServer, post, readMessages } from "./helpers"
+
+describe("InMemoryRateLimitStore", () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it("takes tokens until the bucket is empty, then returns the wait until the next one", async () => {
+		const store = new InMemoryRateLimitStore()
+		const bucket = { capacity: 2, refillPerSecond: 4 }
+
+		expect(await store.take("key", bucket)).toBe(0)
+		expect(await store.take("key", bucket)).toBe(0)
+		expect(await store.take("key", bucket)).toBe(250)
+	})
+
+	it("refills buckets over time, up to their capacity", async () => {
+		const store = new InMemoryRateLimitStore()
+		const bucket = { capacity: 1, refillPerSecond: 1 }
+
+		await store.take("key", bucket)
+		vi.advanceTimersByTime(500)
+		expect(await store.take("key", bucket)).toBe(500)
+		vi.advanceTimersByTime(10_000)
+		expect(await store.take("key", bucket)).toBe(0)
+		expect(await store.take("key", bucket)).toBeGreaterThan(0)
+	})
+
+	it("keeps a bucket per key", async () => {
+		const store = new InMemoryRateLimitStore()
+		const bucket = { capacity: 1, refillPerSecond: 1 }
+
+		expect(await store.take("a", bucket)).toBe(0)
+		expect(await store.take("b", bucket)).toBe(0)
+		expect(await store.take("a", bucket)).toBeGreaterThan(0)
+	})
+
+	it("forgets buckets that refilled completely", async () => {
+		const store = new InMemoryRateLimitStore()
+		const bucket = { capacity: 1, refillPerSecond: 1000 }
+
+		for (let i = 0; i < 1000; i++) {
+			await store.take(`key-${i}`, bucket)
+		}
+		vi.advanceTimersByTime(1000)
+		await store.take("last", bucket)
+
+		// Only the bucket of the last take is left
+		expect(await store.take("key-0", bucket)).toBe(0)
+	})
+})
+
+describe("EdgeStreamableHTTPTransport limits", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	it("rejects requests beyond the in-flight limit", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, maxInFlightRequests: 1 })
+		await connectEchoServer(transport, 50)
+
+		const first = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }))
+		const second = await transport.handleRequest(post({ jsonrpc: "2.0", id: 2, method: "slow" }))
+
+		expect(second.status).toBe(429)
+		expect(second.headers.get("retry-after")).toBe("1")
+		expect(await readMessages(first)).toHaveLength(1)
+	})
+
+	it("rejects initialize requests beyond the limits without initializing the session", async () => {
+		const onsessioninitialized = vi.fn()
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			maxInFlightRequests: 0,
+			onsessioninitialized,
+		})
+		await connectEchoServer(transport)
+
+		const first = await transport.handleRequest(post(INITIALIZE_REQUEST))
+		const retried = await transport.handleRequest(post(INITIALIZE_REQUEST))
+
+		expect(first.status).toBe(429)
+		expect(retried.status).toBe(429)
+		expect(transport.sessionId).toBeUndefined()
+		expect(onsessioninitialized).not.toHaveBeenCalled()
+	})
+
+	it("rejects batches beyond the batch size limit", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, maxBatchSize: 1 })
+		await connectEchoServer(transport)
+
+		const response = await transport.handleRequest(
+			post([
+				{ jsonrpc: "2.0", id: 1, method: "a" },
+				{ jsonrpc: "2.0", id: 2, method: "b" },
+			])
+		)
+
+		expect(response.status).toBe(429)
+	})
+
+	it("rate limits requests with a token bucket", async () => {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: undefined,
+			rateLimit: { capacity: 1, refillPerSecond: 0.5, key: () => "client" },
+		})
+		await connectEchoServer(transport)
+
+		const first = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+		const second = await transport.handleRequest(post({ jsonrpc: "2.0", id: 2, method: "ping" }))
+
+		expect(first.status).toBe(200)
+		await first.text()
+		expect(second.status).toBe(429)
+		expect(second.headers.get("retry-after")).toBe("2")
+	})
+})
+
+describe("shared rate limits", () => {
+	const rateLimit = { capacity: 1, refillPerSecond: 0.5, key: () => "client" }
+
+	it("shares the default store between the sessions of a session manager", async () => {
+		const sessions = new EdgeStreamableHTTPSessionManager({ serverFactory: createTestServer, rateLimit })
+
+		const first = await sessions.handleRequest(post(INITIALIZE_REQUEST))
+		const second = await sessions.handleRequest(post(INITIALIZE_REQUEST))
+
+		expect(first.status).toBe(200)
+		expect(second.status).toBe(429)
+		await sessions.close()
+	})
+
+	it("shares the default store between the requests of a stateless fetch handler", async () => {
+		const handler = createMcpFetchHandler(createTestServer, { stateless: true, rateLimit })
+
+		const first = await handler(post({ jsonrpc: "2.0", id: 1, method: "tools/list" }))
+		await first.text()
+		const second = await handler(post({ jsonrpc: "2.0", id: 2, method: "tools/list" }))
+
+		expect(first.status).toBe(200)
+		expect(second.status).toBe(429)
+		await handler.close()
+	})
+})
@@ -0,0 +1,66 @@
+import { EdgeStreamableHTTPTransport, type MessageExtraInfo, createMcpFetchHandler } from "../src"
+import { connectEchoServer, createTestServer, post, readMessages, sleep } from "./helpers"
+
+describe("request context", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	it("passes the request info to onmessage", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined })
+		const extras: (MessageExtraInfo | undefined)[] = []
+		transport.onmessage = (_message, extra) => {
+			extras.push(extra)
+		}
+		await transport.start()
+
+		await transport.handleRequest(
+			post({ jsonrpc: "2.0", method: "notifications/initialized" }, { "X-Custom": "value" }, "http://localhost/mcp?a=1")
+		)
+		await sleep(10)
+
+		expect(extras).toHaveLength(1)
+		expect(extras[0]?.requestInfo).toEqual({
+			headers: expect.objectContaining({ "x-custom": "value", "content-type": "application/json" }),
+			url: "http://localhost/mcp?a=1",
+			method: "POST",
+		})
+	})
+
+	it("keeps the isolate alive through waitUntil until the requests of a POST are answered", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined })
+		await connectEchoServer(transport, 30)
+		const keepAlives: Promise<unknown>[] = []
+		let settled = false
+
+		const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }), undefined, {
+			waitUntil: (promise) => {
+				keepAlives.push(promise)
+				promise.then(() => {
+					settled = true
+				})
+			},
+		})
+
+		expect(keepAlives).toHaveLength(1)
+		await sleep(10)
+		expect(settled).toBe(false)
+		expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "slow" } }])
+		await Promise.all(keepAlives)
+		expect(settled).toBe(true)
+	})
+})
+
+describe("createMcpFetchHandler platform context", () => {
+	it("hands the platform context of the fetch handler over to the transport", async () => {
+		const handler = createMcpFetchHandler(createTestServer, { stateless: true })
+		const waitUntil = vi.fn()
+
+		const response = await handler(post({ jsonrpc: "2.0", id: 1, method: "tools/list" }), { waitUntil })
+
+		expect(await readMessages(response)).toHaveLength(1)
+		expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise))
+	})
+})
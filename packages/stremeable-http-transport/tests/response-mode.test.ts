@@ -0,0 +1,188 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EdgeStreamableHTTPTransport } from "../src"
+import { connectEchoServer, initialize, post, readMessages, sessionHeaders, sleep } from "./helpers"
+
+describe("response modes", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	describe("json", () => {
+		it("answers a batch with a JSON array once every request is answered", async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, responseMode: "json" })
+			await connectEchoServer(transport)
+
+			const response = await transport.handleRequest(
+				post([
+					{ jsonrpc: "2.0", id: 1, method: "a" },
+					{ jsonrpc: "2.0", id: 2, method: "b" },
+				])
+			)
+
+			expect(response.headers.get("content-type")).toBe("application/json")
+			expect(await response.json()).toEqual([
+				{ jsonrpc: "2.0", id: 1, result: { echo: "a" } },
+				{ jsonrpc: "2.0", id: 2, result: { echo: "b" } },
+			])
+		})
+
+		it("is enabled by enableJsonResponse", async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, enableJsonResponse: true })
+			await connectEchoServer(transport)
+
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "a" }))
+
+			expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { echo: "a" } })
+		})
+
+		it("times out requests left unanswered past jsonResponseTimeout", async () => {
+			transport = new EdgeStreamableHTTPTransport({
+				sessionIdGenerator: undefined,
+				responseMode: "json",
+				jsonResponseTimeout: 20,
+			})
+			const received: JSONRPCMessage[] = []
+			transport.onmessage = (message) => {
+				received.push(message)
+			}
+			await transport.start()
+
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "never" }))
+
+			expect(await response.json()).toMatchObject({ id: 1, error: { message: "Request timed out" } })
+			expect(received).toContainEqual({
+				jsonrpc: "2.0",
+				method: "notifications/cancelled",
+				params: { requestId: 1, reason: "Request timed out" },
+			})
+		})
+
+		it("keeps the answers of a batch past jsonResponseTimeout, erroring the others", async () => {
+			transport = new EdgeStreamableHTTPTransport({
+				sessionIdGenerator: undefined,
+				responseMode: "json",
+				jsonResponseTimeout: 20,
+			})
+			transport.onmessage = async (message) => {
+				if ("id" in message && "method" in message && message.method === "fast") {
+					await transport.send({ jsonrpc: "2.0", id: message.id, result: {} })
+				}
+			}
+			await transport.start()
+
+			const response = await transport.handleRequest(
+				post([
+					{ jsonrpc: "2.0", id: 1, method: "fast" },
+					{ jsonrpc: "2.0", id: 2, method: "never" },
+				])
+			)
+
+			expect(await response.json()).toEqual([
+				{ jsonrpc: "2.0", id: 1, result: {} },
+				{ jsonrpc: "2.0", id: 2, error: { code: -32001, message: "Request timed out" } },
+			])
+		})
+
+		it("settles pending responses with 503 when the transport closes", async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", responseMode: "json" })
+			await connectEchoServer(transport)
+			const sessionId = await initialize(transport)
+			transport.onmessage = () => {}
+
+			const pending = transport.handleRequest(
+				post({ jsonrpc: "2.0", id: 1, method: "never" }, sessionHeaders(sessionId))
+			)
+			await sleep(10)
+			await transport.close()
+			const response = await pending
+
+			expect(response.status).toBe(503)
+			expect(await response.json()).toMatchObject({
+				error: { code: -32000, message: "Service Unavailable: Session closed (shutdown)" },
+			})
+		})
+	})
+
+	describe("hybrid", () => {
+		it("answers with JSON when the answer comes before the upgrade delay", async () => {
+			transport = new EdgeStreamableHTTPTransport({
+				sessionIdGenerator: undefined,
+				responseMode: "hybrid",
+				hybridUpgradeDelay: 100,
+			})
+			await connectEchoServer(transport)
+
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "fast" }))
+
+			expect(response.headers.get("content-type")).toBe("application/json")
+			expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { echo: "fast" } })
+		})
+
+		it("upgrades to an SSE stream once the upgrade delay is reached", async () => {
+			transport = new EdgeStreamableHTTPTransport({
+				sessionIdGenerator: undefined,
+				responseMode: "hybrid",
+				hybridUpgradeDelay: 20,
+			})
+			await connectEchoServer(transport, 60)
+
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "slow" }))
+
+			expect(response.headers.get("content-type")).toBe("text/event-stream")
+			expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "slow" } }])
+		})
+
+		it("upgrades to an SSE stream as soon as the server sends a notification", async () => {
+			transport = new EdgeStreamableHTTPTransport({
+				sessionIdGenerator: undefined,
+				responseMode: "hybrid",
+				hybridUpgradeDelay: 10_000,
+			})
+			transport.onmessage = async (message) => {
+				if ("id" in message && "method" in message) {
+					await transport.send(
+						{ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: 1, progress: 50 } },
+						{ relatedRequestId: message.id }
+					)
+					await sleep(10)
+					await transport.send({ jsonrpc: "2.0", id: message.id, result: {} })
+				}
+			}
+			await transport.start()
+
+			const start = Date.now()
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "tools/call" }))
+
+			expect(Date.now() - start).toBeLessThan(1000)
+			expect(response.headers.get("content-type")).toBe("text/event-stream")
+			expect(await readMessages(response)).toEqual([
+				{ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: 1, progress: 50 } },
+				{ jsonrpc: "2.0", id: 1, result: {} },
+			])
+		})
+	})
+
+	describe("per method", () => {
+		it("picks the mode of every request from the callback, streaming when any of them needs it", async () => {
+			const responseMode = vi.fn((method: string) => (method === "tools/list" ? ("json" as const) : ("sse" as const)))
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined, responseMode })
+			await connectEchoServer(transport)
+
+			const json = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "tools/list" }))
+			const batch = await transport.handleRequest(
+				post([
+					{ jsonrpc: "2.0", id: 2, method: "tools/list" },
+					{ jsonrpc: "2.0", id: 3, method: "tools/call" },
+				])
+			)
+
+			expect(json.headers.get("content-type")).toBe("application/json")
+			await json.text()
+			expect(batch.headers.get("content-type")).toBe("text/event-stream")
+			expect(await readMessages(batch)).toHaveLength(2)
+			expect(responseMode).toHaveBeenCalledWith("tools/call", expect.any(Request))
+		})
+	})
+})
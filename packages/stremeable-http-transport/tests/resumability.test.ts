@@ -0,0 +1,142 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EdgeStreamableHTTPTransport, InMemoryEventStore } from "../src"
+import {
+	INITIALIZE_RESULT,
+	collectStream,
+	connectEchoServer,
+	get,
+	initialize,
+	post,
+	sessionHeaders,
+	sleep,
+} from "./helpers"
+
+const notify = (data: string): JSONRPCMessage => ({
+	jsonrpc: "2.0",
+	method: "notifications/message",
+	params: { level: "info", data },
+})
+
+/**
+ * Reads the first event of an SSE stream and returns its ID, then disconnects from the stream
+ */
+async function readFirstEventId(response: Response): Promise<string> {
+	const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+	const { value } = await reader.read()
+	await reader.cancel()
+	return /id: (\S+)/.exec(new TextDecoder().decode(value))?.[1] as string
+}
+
+describe("resumability", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	it("replays the events of the standalone stream after Last-Event-ID", async () => {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			eventStore: new InMemoryEventStore(),
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const first = await transport.handleRequest(get(sessionHeaders(sessionId)))
+		const firstStream = collectStream(first)
+		await transport.send(notify("one"))
+		await transport.send(notify("two"))
+		await sleep(10)
+		const lastEventId = /id: (\S+)/.exec(firstStream.text())?.[1] as string
+		await firstStream.cancel()
+
+		const resumed = await transport.handleRequest(get({ ...sessionHeaders(sessionId), "Last-Event-ID": lastEventId }))
+		const stream = collectStream(resumed)
+		await sleep(10)
+		await transport.close()
+		await stream.done
+
+		expect(resumed.status).toBe(200)
+		expect(stream.text()).toContain('"data":"two"')
+		expect(stream.text()).not.toContain('"data":"one"')
+	})
+
+	it("delivers the pending response of a POST on the resumed stream", async () => {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			eventStore: new InMemoryEventStore(),
+		})
+		let answer: () => void = () => {}
+		const answered = new Promise<void>((resolve) => {
+			answer = resolve
+		})
+		transport.onmessage = async (message) => {
+			if (!("id" in message) || !("method" in message)) {
+				return
+			}
+			if (message.method === "initialize") {
+				await transport.send({ jsonrpc: "2.0", id: message.id, result: INITIALIZE_RESULT })
+				return
+			}
+			await transport.send(
+				{ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: 1, progress: 50 } },
+				{ relatedRequestId: message.id }
+			)
+			await answered
+			await transport.send({ jsonrpc: "2.0", id: message.id, result: { echo: message.method } })
+		}
+		await transport.start()
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "tools/call" }, sessionHeaders(sessionId))
+		)
+		const lastEventId = await readFirstEventId(response)
+		const resumed = await transport.handleRequest(get({ ...sessionHeaders(sessionId), "Last-Event-ID": lastEventId }))
+		const stream = collectStream(resumed)
+		answer()
+		// The stream ends once its request is answered
+		await stream.done
+
+		expect(resumed.status).toBe(200)
+		expect(stream.text()).toContain('"result":{"echo":"tools/call"}')
+		expect(stream.text()).not.toContain("notifications/progress")
+	})
+
+	it("rejects invalid Last-Event-ID values without leaking the stream", async () => {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			eventStore: new InMemoryEventStore(),
+			sseHeartbeatInterval: 1000,
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(get({ ...sessionHeaders(sessionId), "Last-Event-ID": "garbage" }))
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toMatchObject({ error: { message: "Bad Request: Invalid Last-Event-ID: garbage" } })
+		// A new standalone stream can still be opened, the failed one was released
+		const standalone = await transport.handleRequest(get(sessionHeaders(sessionId)))
+		expect(standalone.status).toBe(200)
+		await standalone.body?.cancel()
+	})
+
+	it("refuses to resume streams of another session", async () => {
+		const eventStore = new InMemoryEventStore()
+		const other = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-2", eventStore })
+		await connectEchoServer(other)
+		const otherSessionId = await initialize(other)
+		const otherStream = await other.handleRequest(get(sessionHeaders(otherSessionId)))
+		await other.send(notify("x"))
+		const eventId = await readFirstEventId(otherStream)
+		await other.close()
+
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", eventStore })
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+		const response = await transport.handleRequest(get({ ...sessionHeaders(sessionId), "Last-Event-ID": eventId }))
+
+		expect(response.status).toBe(400)
+	})
+})
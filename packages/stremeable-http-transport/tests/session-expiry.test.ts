@@ -0,0 +1,94 @@
+import { EdgeStreamableHTTPTransport } from "../src"
+import { connectEchoServer, createTestServer, initialize, post, readMessages, sessionHeaders, sleep } from "./helpers"
+
+describe("session expiry", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	it("closes idle sessions, but not while requests are in flight", async () => {
+		const onsessionclosed = vi.fn()
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			sessionIdleTimeout: 30,
+			onsessionclosed,
+		})
+		await connectEchoServer(transport, 100)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "slow" }, sessionHeaders(sessionId))
+		)
+
+		expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "slow" } }])
+		expect(onsessionclosed).not.toHaveBeenCalled()
+		await sleep(60)
+		expect(onsessionclosed).toHaveBeenCalledWith("session-1", "idle")
+	})
+
+	it("closes sessions past their maximum lifetime", async () => {
+		const onsessionclosed = vi.fn()
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			sessionMaxLifetime: 20,
+			onsessionclosed,
+		})
+		await connectEchoServer(transport)
+		await initialize(transport)
+
+		await sleep(40)
+
+		expect(onsessionclosed).toHaveBeenCalledWith("session-1", "expired")
+	})
+
+	it("reports sessions terminated by the client", async () => {
+		const onsessionclosed = vi.fn()
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", onsessionclosed })
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		await transport.handleRequest(
+			new Request("http://localhost/mcp", { method: "DELETE", headers: sessionHeaders(sessionId) })
+		)
+		await transport.close()
+
+		expect(onsessionclosed).toHaveBeenCalledTimes(1)
+		expect(onsessionclosed).toHaveBeenCalledWith("session-1", "deleted")
+	})
+
+	it("answers requests of an expired session with 404", async () => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", sessionIdleTimeout: 20 })
+		await createTestServer().connect(transport)
+		const sessionId = await initialize(transport)
+
+		await sleep(40)
+		const response = await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, sessionHeaders(sessionId))
+		)
+		const deleted = await transport.handleRequest(
+			new Request("http://localhost/mcp", { method: "DELETE", headers: sessionHeaders(sessionId) })
+		)
+
+		expect(response.status).toBe(404)
+		expect(await response.json()).toMatchObject({ error: { code: -32001, message: "Session not found" } })
+		expect(deleted.status).toBe(404)
+	})
+
+	it.each([
+		["an idle timeout", async () => await sleep(40)],
+		["a drain", async () => await transport.drain({ timeout: 100 })],
+	])("calls onclose once when closing after %s", async (_name, closeFirst) => {
+		transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1", sessionIdleTimeout: 20 })
+		await connectEchoServer(transport)
+		const onclose = vi.fn()
+		transport.onclose = onclose
+		await initialize(transport)
+
+		await closeFirst()
+		await transport.close()
+
+		expect(onclose).toHaveBeenCalledTimes(1)
+	})
+})
@@ -0,0 +1,77 @@
+import { EdgeStreamableHTTPSessionManager } from "../src"
+import { INITIALIZE_REQUEST, createTestServer, post, readMessages, sessionHeaders } from "./helpers"
+
+describe("EdgeStreamableHTTPSessionManager", () => {
+	let serverFactory: ReturnType<typeof vi.fn<typeof createTestServer>>
+	let sessions: EdgeStreamableHTTPSessionManager
+
+	beforeEach(() => {
+		serverFactory = vi.fn(createTestServer)
+		sessions = new EdgeStreamableHTTPSessionManager({ serverFactory, responseMode: "json" })
+	})
+
+	afterEach(async () => {
+		await sessions.close()
+	})
+
+	async function createSession(): Promise<string> {
+		const response = await sessions.handleRequest(post(INITIALIZE_REQUEST))
+		expect(response.status).toBe(200)
+		await response.text()
+		return response.headers.get("mcp-session-id") as string
+	}
+
+	it("creates a session with a fresh server for every initialize request", async () => {
+		const first = await createSession()
+		const second = await createSession()
+
+		expect(first).not.toBe(second)
+		expect(serverFactory).toHaveBeenCalledTimes(2)
+		expect(sessions.size).toBe(2)
+	})
+
+	it("routes requests to the transport of their session", async () => {
+		const sessionId = await createSession()
+
+		const response = await sessions.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, sessionHeaders(sessionId))
+		)
+
+		const [message] = await readMessages(response)
+		expect(message).toMatchObject({ id: 1, result: { tools: [{ name: "echo" }] } })
+	})
+
+	it("rejects requests of unknown sessions and requests without a session", async () => {
+		const unknown = await sessions.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionHeaders("missing"))
+		)
+		const missing = await sessions.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+		const malformed = await sessions.handleRequest(post("{not json"))
+
+		expect(unknown.status).toBe(404)
+		expect(await unknown.json()).toMatchObject({ error: { code: -32001, message: "Session not found" } })
+		expect(missing.status).toBe(400)
+		expect(malformed.status).toBe(400)
+		expect(serverFactory).not.toHaveBeenCalled()
+	})
+
+	it("forgets sessions once their transport closes", async () => {
+		const sessionId = await createSession()
+
+		const response = await sessions.handleRequest(
+			new Request("http://localhost/mcp", { method: "DELETE", headers: sessionHeaders(sessionId) })
+		)
+
+		expect(response.status).toBe(200)
+		expect(sessions.size).toBe(0)
+	})
+
+	it("closes every session", async () => {
+		await createSession()
+		await createSession()
+
+		await sessions.close()
+
+		expect(sessions.size).toBe(0)
+	})
+})
@@ -0,0 +1,115 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+import { EdgeStreamableHTTPTransport, type SSEOverflowPolicy, type TransportTelemetryEvent } from "../src"
+import { collectStream, connectEchoServer, get, initialize, parseSSEMessages, sessionHeaders, sleep } from "./helpers"
+
+const notification = (index: number): JSONRPCMessage => ({
+	jsonrpc: "2.0",
+	method: "notifications/message",
+	params: { level: "info", data: `message ${index} ${"x".repeat(50)}` },
+})
+
+describe("SSE streams", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	/**
+	 * Opens the standalone stream of a new session, without reading it
+	 */
+	async function openStandaloneStream(
+		sseOverflowPolicy: SSEOverflowPolicy,
+		ontelemetry?: (event: TransportTelemetryEvent) => void
+	): Promise<Response> {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			sseHighWaterMark: 400,
+			sseOverflowPolicy,
+			ontelemetry,
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+		return await transport.handleRequest(get(sessionHeaders(sessionId)))
+	}
+
+	describe("overflow policies", () => {
+		it("wait: holds send() back until the client reads", async () => {
+			const response = await openStandaloneStream("wait")
+
+			let sent = 0
+			const sending = (async () => {
+				for (let i = 0; i < 10; i++) {
+					await transport.send(notification(i))
+					sent++
+				}
+			})()
+			await sleep(20)
+			expect(sent).toBeLessThan(10)
+
+			const stream = collectStream(response)
+			await sending
+			await sleep(10)
+			expect(sent).toBe(10)
+			expect(transport.droppedEventCount).toBe(0)
+			await transport.close()
+			await stream.done
+			expect(parseSSEMessages(stream.text())).toHaveLength(10)
+		})
+
+		it("drop-oldest: drops the oldest notifications of a slow client", async () => {
+			const events: TransportTelemetryEvent[] = []
+			const response = await openStandaloneStream("drop-oldest", (event) => events.push(event))
+
+			for (let i = 0; i < 20; i++) {
+				await transport.send(notification(i))
+			}
+			const stream = collectStream(response)
+			await sleep(10)
+			await transport.close()
+			await stream.done
+
+			const messages = parseSSEMessages(stream.text())
+			expect(transport.droppedEventCount).toBeGreaterThan(0)
+			expect(messages.length + transport.droppedEventCount).toBe(20)
+			// The latest notification is always kept
+			expect(messages.at(-1)).toEqual(notification(19))
+			expect(events.filter((event) => event.type === "event_dropped")).toHaveLength(transport.droppedEventCount)
+		})
+
+		it("disconnect: ends the stream of a slow client", async () => {
+			const response = await openStandaloneStream("disconnect")
+
+			for (let i = 0; i < 20; i++) {
+				await transport.send(notification(i))
+			}
+			const stream = collectStream(response)
+			await stream.done
+
+			expect(parseSSEMessages(stream.text())).toHaveLength(0)
+			// The client may open a new standalone stream
+			const reopened = await transport.handleRequest(get(sessionHeaders("session-1")))
+			expect(reopened.status).toBe(200)
+			await reopened.body?.cancel()
+		})
+	})
+
+	it("writes heartbeats and the retry interval", async () => {
+		transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			sseHeartbeatInterval: 10,
+			sseRetryInterval: 3000,
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		const response = await transport.handleRequest(get(sessionHeaders(sessionId)))
+		const stream = collectStream(response)
+		await sleep(35)
+		await transport.close()
+		await stream.done
+
+		expect(stream.text().startsWith("retry: 3000\n\n")).toBe(true)
+		expect(stream.text()).toContain(": ping\n\n")
+	})
+})
@@ -0,0 +1,44 @@
+import { createMcpFetchHandler } from "../src"
+import { createTestServer, get, post, readMessages } from "./helpers"
+
+const TOOLS_LIST = { jsonrpc: "2.0", id: 1, method: "tools/list" } as const
+
+describe("createMcpFetchHandler stateless mode", () => {
+	it("serves every request with a fresh server", async () => {
+		const serverFactory = vi.fn(createTestServer)
+		const handler = createMcpFetchHandler(serverFactory, { stateless: true })
+
+		const first = await handler(post(TOOLS_LIST))
+		const second = await handler(post(TOOLS_LIST))
+
+		expect(first.headers.get("mcp-session-id")).toBeNull()
+		expect(await readMessages(first)).toMatchObject([{ id: 1, result: { tools: [{ name: "echo" }] } }])
+		expect(await readMessages(second)).toMatchObject([{ id: 1, result: { tools: [{ name: "echo" }] } }])
+		expect(serverFactory).toHaveBeenCalledTimes(2)
+	})
+
+	it("refuses GET and DELETE requests", async () => {
+		const handler = createMcpFetchHandler(createTestServer, { stateless: true, cors: {} })
+
+		const response = await handler(get())
+
+		expect(response.status).toBe(405)
+		expect(response.headers.get("allow")).toBe("POST, OPTIONS")
+		expect(response.headers.get("access-control-allow-origin")).toBe("*")
+		expect((await handler(new Request("http://localhost/mcp", { method: "DELETE" }))).status).toBe(405)
+		expect((await handler(new Request("http://localhost/mcp", { method: "OPTIONS" }))).status).toBe(204)
+	})
+
+	it("authenticates requests before building a server", async () => {
+		const serverFactory = vi.fn(createTestServer)
+		const handler = createMcpFetchHandler(serverFactory, {
+			stateless: true,
+			verifyAccessToken: async (token) => ({ token, clientId: "client", scopes: [] }),
+		})
+
+		const response = await handler(post(TOOLS_LIST))
+
+		expect(response.status).toBe(401)
+		expect(serverFactory).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,137 @@
+import {
+	EdgeStreamableHTTPTransport,
+	type TransportTelemetryEvent,
+	createOpenTelemetryHandler,
+	getTraceContext,
+} from "../src"
+import { connectEchoServer, initialize, post, sessionHeaders } from "./helpers"
+
+const TRACEPARENT = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01"
+
+describe("getTraceContext", () => {
+	it("extracts valid trace contexts", () => {
+		const request = new Request("http://localhost/mcp", {
+			headers: { traceparent: TRACEPARENT.toUpperCase(), tracestate: "vendor=value" },
+		})
+
+		expect(getTraceContext(request)).toEqual({ traceparent: TRACEPARENT, tracestate: "vendor=value" })
+	})
+
+	it("ignores missing and malformed traceparent headers", () => {
+		expect(getTraceContext(new Request("http://localhost/mcp"))).toBeUndefined()
+		expect(getTraceContext(new Request("http://localhost/mcp", { headers: { traceparent: "00-abc" } }))).toBeUndefined()
+	})
+})
+
+describe("createOpenTelemetryHandler", () => {
+	function createTracer() {
+		const spans: { name: string; options?: Record<string, unknown>; context?: unknown; status?: unknown }[] = []
+		const tracer = {
+			startSpan(name: string, options?: Record<string, unknown>, context?: unknown) {
+				const span: (typeof spans)[number] = { name, options, context }
+				spans.push(span)
+				return {
+					setAttribute: () => undefined,
+					setStatus: (status: unknown) => {
+						span.status = status
+					},
+					end: () => undefined,
+				}
+			},
+		}
+		return { spans, tracer }
+	}
+
+	it("turns requests into server spans with their parent context", () => {
+		const { spans, tracer } = createTracer()
+		const handler = createOpenTelemetryHandler(tracer, {
+			extractContext: (carrier) => ({ parent: carrier.traceparent }),
+		})
+
+		handler({
+			type: "request",
+			method: "POST",
+			status: 503,
+			durationMs: 10,
+			sessionId: "session-1",
+			traceContext: { traceparent: TRACEPARENT },
+		})
+
+		expect(spans).toHaveLength(1)
+		expect(spans[0].name).toBe("MCP POST")
+		expect(spans[0].context).toEqual({ parent: TRACEPARENT })
+		expect(spans[0].status).toEqual({ code: 2 })
+		expect(spans[0].options).toMatchObject({
+			kind: 1,
+			attributes: {
+				"mcp.session.id": "session-1",
+				"http.request.method": "POST",
+				"http.response.status_code": 503,
+			},
+		})
+	})
+
+	it("turns other events into internal spans", () => {
+		const { spans, tracer } = createTracer()
+		const handler = createOpenTelemetryHandler(tracer)
+
+		handler({ type: "session_closed", sessionId: "session-1", reason: "idle" })
+		handler({
+			type: "message_sent",
+			streamId: "stream-1",
+			sessionId: "session-1",
+			message: { jsonrpc: "2.0", method: "notifications/message" },
+		})
+
+		expect(spans.map((span) => span.name)).toEqual(["mcp.session_closed", "mcp.message_sent"])
+		expect(spans[0].options?.attributes).toEqual({ "mcp.session.id": "session-1", "mcp.session.close_reason": "idle" })
+		expect(spans[1].options?.attributes).toEqual({
+			"mcp.session.id": "session-1",
+			"mcp.stream.id": "stream-1",
+			"mcp.method.name": "notifications/message",
+		})
+	})
+})
+
+describe("EdgeStreamableHTTPTransport telemetry", () => {
+	it("reports requests and the session lifecycle", async () => {
+		const events: TransportTelemetryEvent[] = []
+		const transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			responseMode: "json",
+			ontelemetry: (event) => events.push(event),
+		})
+		await connectEchoServer(transport)
+		const sessionId = await initialize(transport)
+
+		await transport.handleRequest(
+			post({ jsonrpc: "2.0", id: 1, method: "ping" }, { ...sessionHeaders(sessionId), traceparent: TRACEPARENT })
+		)
+		await transport.close()
+
+		expect(events).toContainEqual({ type: "session_initialized", sessionId: "session-1" })
+		expect(events).toContainEqual(
+			expect.objectContaining({
+				type: "request",
+				method: "POST",
+				status: 200,
+				traceContext: { traceparent: TRACEPARENT },
+			})
+		)
+		expect(events).toContainEqual({ type: "session_closed", sessionId: "session-1", reason: "shutdown" })
+	})
+
+	it("keeps serving requests when the telemetry handler throws", async () => {
+		const transport = new EdgeStreamableHTTPTransport({
+			sessionIdGenerator: () => "session-1",
+			responseMode: "json",
+			ontelemetry: () => {
+				throw new Error("Telemetry failure")
+			},
+		})
+		await connectEchoServer(transport)
+
+		expect(await initialize(transport)).toBe("session-1")
+		await transport.close()
+	})
+})
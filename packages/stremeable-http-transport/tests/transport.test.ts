@@ -0,0 +1,136 @@
+import { EdgeStreamableHTTPTransport } from "../src"
+import {
+	INITIALIZE_REQUEST,
+	collectStream,
+	connectEchoServer,
+	get,
+	initialize,
+	post,
+	readMessages,
+	sessionHeaders,
+	sleep,
+} from "./helpers"
+
+describe("EdgeStreamableHTTPTransport", () => {
+	let transport: EdgeStreamableHTTPTransport
+
+	afterEach(async () => {
+		await transport.close()
+	})
+
+	describe("stateful mode", () => {
+		beforeEach(async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: () => "session-1" })
+			await connectEchoServer(transport)
+		})
+
+		it("initializes a session and answers on an SSE stream", async () => {
+			const response = await transport.handleRequest(post(INITIALIZE_REQUEST))
+
+			expect(response.status).toBe(200)
+			expect(response.headers.get("content-type")).toBe("text/event-stream")
+			expect(response.headers.get("mcp-session-id")).toBe("session-1")
+			const [message] = await readMessages(response)
+			expect(message).toMatchObject({ id: "init", result: { protocolVersion: "2025-03-26" } })
+			expect(transport.sessionId).toBe("session-1")
+		})
+
+		it("rejects a second initialization", async () => {
+			await initialize(transport)
+
+			const response = await transport.handleRequest(post({ ...INITIALIZE_REQUEST, id: "again" }))
+
+			expect(response.status).toBe(400)
+		})
+
+		it("requires the session ID after initialization", async () => {
+			await initialize(transport)
+
+			const missing = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+			const unknown = await transport.handleRequest(
+				post({ jsonrpc: "2.0", id: 1, method: "ping" }, sessionHeaders("other"))
+			)
+
+			expect(missing.status).toBe(400)
+			expect(unknown.status).toBe(404)
+		})
+
+		it("answers requests of the session", async () => {
+			const sessionId = await initialize(transport)
+
+			const response = await transport.handleRequest(
+				post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, sessionHeaders(sessionId))
+			)
+
+			expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "tools/list" } }])
+		})
+
+		it("answers every request of a batch on one stream", async () => {
+			const sessionId = await initialize(transport)
+
+			const response = await transport.handleRequest(
+				post(
+					[
+						{ jsonrpc: "2.0", id: 1, method: "a" },
+						{ jsonrpc: "2.0", id: 2, method: "b" },
+					],
+					sessionHeaders(sessionId)
+				)
+			)
+
+			const messages = await readMessages(response)
+			expect(messages.map((message) => "id" in message && message.id).sort()).toEqual([1, 2])
+		})
+
+		it("accepts notifications and responses with 202", async () => {
+			const sessionId = await initialize(transport)
+
+			const response = await transport.handleRequest(
+				post({ jsonrpc: "2.0", method: "notifications/initialized" }, sessionHeaders(sessionId))
+			)
+
+			expect(response.status).toBe(202)
+		})
+
+		it("delivers messages unrelated to a request on the standalone stream", async () => {
+			const sessionId = await initialize(transport)
+			const response = await transport.handleRequest(get(sessionHeaders(sessionId)))
+			const stream = collectStream(response)
+
+			await transport.send({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: "hi" } })
+			await sleep(10)
+			const conflict = await transport.handleRequest(get(sessionHeaders(sessionId)))
+			await transport.close()
+			await stream.done
+
+			expect(response.status).toBe(200)
+			expect(conflict.status).toBe(409)
+			expect(stream.text()).toContain('"method":"notifications/message"')
+		})
+
+		it("terminates the session on DELETE", async () => {
+			const onclose = vi.fn()
+			transport.onclose = onclose
+			const sessionId = await initialize(transport)
+
+			const response = await transport.handleRequest(
+				new Request("http://localhost/mcp", { method: "DELETE", headers: sessionHeaders(sessionId) })
+			)
+
+			expect(response.status).toBe(200)
+			expect(onclose).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe("stateless mode", () => {
+		it("answers requests without a session", async () => {
+			transport = new EdgeStreamableHTTPTransport({ sessionIdGenerator: undefined })
+			await connectEchoServer(transport)
+
+			const response = await transport.handleRequest(post({ jsonrpc: "2.0", id: 1, method: "ping" }))
+
+			expect(response.headers.get("mcp-session-id")).toBeNull()
+			expect(await readMessages(response)).toEqual([{ jsonrpc: "2.0", id: 1, result: { echo: "ping" } }])
+		})
+	})
+})